@@ -4,6 +4,7 @@
 import { fileURLToPath } from 'url';
 import { dirname, join } from 'path';
 import { spawn } from 'child_process';
+import { constants } from 'os';
 
 const __filename = fileURLToPath(import.meta.url);
 const __dirname = dirname(__filename);
@@ -17,9 +18,12 @@ const child = spawn('npx', ['tsx', scriptPath, ...process.argv.slice(2)], {
   cwd: process.cwd()
 });
 
-// Forward exit code
-child.on('exit', (code) => {
-  process.exit(code || 0);
+// Ctrl+C reaches the child too; let it cancel its request and exit on its own terms
+process.on('SIGINT', () => {});
+
+// Forward exit code - a child killed by a signal (Ctrl+C outside a model request) exits like a shell would
+child.on('exit', (code, signal) => {
+  process.exit(signal ? 128 + constants.signals[signal] : code ?? 1);
 });
 
 // Handle errors
@@ -1,24 +1,22 @@
-import {
-  checkDependencies,
-  checkPythonEnvironment,
-  runGitingest,
-  debugGitingest,
-  readPromptFile,
-  readGitingestOutput,
-  callOpenAI,
-  processPromptStep,
-  updateReadme,
-  formatReadme,
-  runWorkflow,
-  showHelp
-} from './script'
 import { jest, expect } from '@jest/globals'
+import http from 'http'
+import type { AddressInfo } from 'net'
+import OpenAI from 'openai'
+import { Server as McpServer } from '@modelcontextprotocol/sdk/server/index.js'
+import { StreamableHTTPServerTransport } from '@modelcontextprotocol/sdk/server/streamableHttp.js'
+import { ListToolsRequestSchema, CallToolRequestSchema } from '@modelcontextprotocol/sdk/types.js'
 import type { ProcessOutput } from 'zx'
+import { spawn, spawnSync, type ChildProcess } from 'child_process'
+import { mkdtempSync, cpSync, readFileSync, writeFileSync, mkdirSync, existsSync, readdirSync, rmSync, appendFileSync } from 'fs'
+import path, { join } from 'path'
+import { tmpdir } from 'os'
 
 // Mock zx module
 const mockEcho = jest.fn()
-// @ts-ignore - Mock implementation doesn't need strict typing
-const mock$ = jest.fn()
+const mockArgv: Record<string, unknown> = {}
+const mock$ = jest.fn<(...args: unknown[]) => Promise<unknown>>()
+// $(options) returns the tag function again, so $`cmd` and $({ quiet: true })`cmd` both end up in mock$
+const zx$ = (first: unknown, ...rest: unknown[]): unknown => Array.isArray(first) ? mock$(first, ...rest) : zx$
 const mockFs = {
   stat: jest.fn(),
   pathExists: jest.fn(),
@@ -26,31 +24,129 @@ const mockFs = {
   writeFile: jest.fn(),
   copy: jest.fn(),
   remove: jest.fn(),
+  pathExistsSync: jest.fn(() => false),
+  readFileSync: jest.fn(),
+  readJson: jest.fn(async () => ({ version: '1.0.0' })),
 }
 
-jest.mock('zx', () => ({
-  __esModule: true,
-  $: mock$,
+// ES modules are mocked before they are imported, so script.ts is loaded dynamically below
+jest.unstable_mockModule('zx', () => ({
+  $: zx$,
   echo: mockEcho,
   question: jest.fn(),
   sleep: jest.fn(),
+  glob: jest.fn(),
   fs: mockFs,
-  path: {
-    join: jest.fn((...args) => args.join('/')),
-  },
+  path,
   chalk: {
     blue: (s: string) => s,
     green: (s: string) => s,
     yellow: (s: string) => s,
     red: (s: string) => s,
     dim: (s: string) => s,
+    cyan: (s: string) => s,
+    bold: (s: string) => s,
   },
-  argv: {},
+  argv: mockArgv,
 }))
 
+const {
+  checkDependencies,
+  checkPythonEnvironment,
+  runGitingest,
+  debugGitingest,
+  readGitingestOutput,
+  callOpenAI,
+  processPromptStep,
+  updateReadme,
+  formatReadme,
+  runWorkflow,
+  showHelp,
+  extractXmlBlock,
+  validateReadmeLlm,
+  resolveSubdirs,
+  createFakeResponse,
+  validateConfig,
+  matchesPattern,
+  selectFiles,
+  renderDirectoryTree,
+  buildPatch,
+  parseSections,
+  textSimilarity,
+  compareSections,
+  extractProtectedRegions,
+  restoreProtectedRegions,
+  extractClaims,
+  findUnverifiedClaims,
+  parseTemplateSections,
+  validateStructure,
+  parseRetryAfter,
+  isRetryableError,
+  computeBackoffDelay,
+  withRetry,
+  createResponsesApiResponse,
+  createAnthropicResponse,
+  findLatestIncompleteRun,
+  estimateTokens,
+  findModelPricing,
+  calculateCost,
+  checkBudget,
+  formatUsageSummary,
+  selectBackupsToPrune,
+  findBackup,
+  sanitizeModelOutput,
+  resolvePipeline,
+  selectSteps,
+  runToolLoop,
+  connectMcpServers,
+  expandEnvVars,
+  formatToolResult,
+  parseSourcePatterns,
+  parseFrontMatter,
+  documentTitle,
+  renderSourceDocument,
+  resolveChangeRange,
+  formatChangeSummary,
+  stripDigestFile,
+  combineHashes,
+  changedInputs,
+  resolveCacheMode,
+  responseCacheKey,
+  isCacheEntryFresh,
+  parsePnpmWorkspace,
+  workspacePatterns,
+  workspaceChildArgs,
+  runWithConcurrency,
+  formatWorkspaceSummary,
+  responseOutputText,
+  formatStreamProgress,
+  pairSections,
+  isSectionChanged,
+  mergeSections,
+  parseReviewChoice,
+  stripJsonComments,
+  lintMarkdown,
+  formatLintError
+} = await import('./script')
+
 // Mock process.exit
 const mockExit = jest.spyOn(process, 'exit').mockImplementation(() => undefined as never)
 
+type StubResponse = { status: string; output?: Array<{ content?: Array<{ type: string; text?: string }> }> }
+
+// A Responses API reply as server-sent events: a delta per output_text part, then the final response
+function responseEvents(response: StubResponse): string {
+  const texts = (response.output || [])
+    .flatMap(item => item.content || [])
+    .filter(part => part.type === 'output_text')
+    .map(part => part.text)
+  const events = [
+    ...texts.map(delta => ({ type: 'response.output_text.delta', delta })),
+    { type: response.status === 'incomplete' ? 'response.incomplete' : 'response.completed', response }
+  ]
+  return events.map(event => `event: ${event.type}\ndata: ${JSON.stringify(event)}\n\n`).join('')
+}
+
 /**
  * Unit and Integration Tests for ReReadme Script
  * 
@@ -89,69 +185,175 @@ describe("ReReadme Script", () => {
         process.env = { ...process.env }  // Create a fresh copy
         mockExit.mockClear()
         mock$.mockReset()
+        for (const key of Object.keys(mockArgv)) {
+            delete mockArgv[key]
+        }
     })
 
     afterEach(() => {
         jest.clearAllMocks()
         delete process.env.OPENAI_API_KEY
     })
+    
+    // End-to-end runs of the real CLI, replaying the model responses recorded in fixtures/e2e/cache
+    const repoRoot = process.cwd()
+    const tempDirs: string[] = []
+    const e2eProject = (prepare?: (dir: string) => void) => {
+        const root = mkdtempSync(join(tmpdir(), 'rereadme-e2e-'))
+        tempDirs.push(root)
+        // The digest names the project directory, so it has to match the recording
+        const dir = join(root, 'project')
+        cpSync(join(repoRoot, 'fixtures/e2e/project'), dir, { recursive: true })
+        cpSync(join(repoRoot, 'fixtures/e2e/cache'), join(dir, '.rereadme/cache'), { recursive: true })
+        prepare?.(dir)
+        return dir
+    }
+    const cliCommand = [join(repoRoot, 'node_modules/tsx/dist/cli.mjs'), join(repoRoot, 'script.ts')]
+    const replayFlags = ['--provider', 'openai-compatible', '--base-url', 'http://127.0.0.1:9/v1', '--model', 'fixture-model', '--cache-only', '--no-change-summary']
+    const runCli = (dir: string, args: string[] = [], flags: string[] = replayFlags, env: NodeJS.ProcessEnv = process.env) => {
+        const result = spawnSync(process.execPath, [...cliCommand, ...flags, ...args], { cwd: dir, encoding: 'utf-8', timeout: 60000, env })
+        return { dir, status: result.status, output: `${result.stdout}${result.stderr}` }
+    }
+    const replay = (args: string[] = [], prepare?: (dir: string) => void) => runCli(e2eProject(prepare), args)
+    // The fake provider answers offline, echoing the current README back
+    const fakeRun = (args: string[] = [], prepare?: (dir: string) => void) => runCli(e2eProject(prepare), args, ['--provider', 'fake'])
+    
+    // Same, without blocking the event loop, so a stub server in this process can answer the CLI
+    const runCliAsync = (dir: string, args: string[], flags: string[], onSpawn?: (child: ChildProcess) => void) =>
+        new Promise<{ dir: string, status: number | null, output: string }>(resolve => {
+            const child = spawn(process.execPath, [...cliCommand, ...flags, ...args], { cwd: dir })
+            const timer = setTimeout(() => child.kill(), 60000)
+            let output = ''
+            child.stdout.on('data', chunk => { output += chunk })
+            child.stderr.on('data', chunk => { output += chunk })
+            child.on('close', status => {
+                clearTimeout(timer)
+                resolve({ dir, status, output })
+            })
+            onSpawn?.(child)
+        })
+    
+    // OpenAI-compatible chat completions stub: answers with the replies in order, repeating the last one, and records each request
+    type StubReply = string | { status: number, message: string } | 'hang'
+    type StubModel = { baseUrl: string, requests: Array<{ messages: Array<{ role: string, content: string }> }>, onRequest?: () => void }
+    const stubServers: http.Server[] = []
+    const startStubModel = async (replies: StubReply[]): Promise<StubModel> => {
+        const stub: StubModel = { baseUrl: '', requests: [] }
+        const server = http.createServer((req, res) => {
+            let body = ''
+            req.on('data', chunk => { body += chunk })
+            req.on('end', () => {
+                stub.requests.push(JSON.parse(body))
+                const reply = replies[Math.min(stub.requests.length, replies.length) - 1]
+                stub.onRequest?.()
+                if (reply === 'hang') {
+                    return
+                }
+                if (typeof reply !== 'string') {
+                    res.writeHead(reply.status, { 'content-type': 'application/json' })
+                    res.end(JSON.stringify({ error: { message: reply.message } }))
+                    return
+                }
+                res.writeHead(200, { 'content-type': 'application/json' })
+                res.end(JSON.stringify({
+                    id: `chatcmpl-${stub.requests.length}`, object: 'chat.completion', created: 0, model: 'fixture-model',
+                    choices: [{ index: 0, finish_reason: 'stop', message: { role: 'assistant', content: reply } }],
+                    usage: { prompt_tokens: 100, completion_tokens: 50, total_tokens: 150 }
+                }))
+            })
+        })
+        stubServers.push(server)
+        await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve))
+        stub.baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}/v1`
+        return stub
+    }
+    // Stateless Streamable HTTP MCP stub with a single Confluence search tool
+    const startStubConfluence = async (toolCalls: unknown[]) => {
+        const httpServer = http.createServer(async (req, res) => {
+            const server = new McpServer({ name: 'stub-confluence', version: '1.0.0' }, { capabilities: { tools: {} } })
+            server.setRequestHandler(ListToolsRequestSchema, async () => ({
+                tools: [{ name: 'search_pages', description: 'Search Confluence pages', inputSchema: { type: 'object', properties: { query: { type: 'string' } } } }]
+            }))
+            server.setRequestHandler(CallToolRequestSchema, async request => {
+                toolCalls.push(request.params.arguments)
+                return { content: [{ type: 'text', text: 'TRD: https://wiki.example.com/trd' }] }
+            })
+            const transport = new StreamableHTTPServerTransport({ sessionIdGenerator: undefined })
+            res.on('close', () => { transport.close(); server.close() })
+            await server.connect(transport)
+            await transport.handleRequest(req, res)
+        })
+        await new Promise<void>(resolve => httpServer.listen(0, '127.0.0.1', resolve))
+        return { server: httpServer, url: `http://127.0.0.1:${(httpServer.address() as AddressInfo).port}/mcp` }
+    }
+    const stubRun = (stub: StubModel, dir: string, args: string[] = [], onSpawn?: (child: ChildProcess) => void) =>
+        runCliAsync(dir, args, ['--provider', 'openai-compatible', '--base-url', stub.baseUrl, '--model', 'fixture-model', '--max-retries', '0'], onSpawn)
+    // The README the e2e recording ends with follows the template, so it passes the structure check
+    const expectedReadme = readFileSync(join(repoRoot, 'fixtures/e2e/expected/README.md'), 'utf-8')
+    // The last user message of a recorded request
+    const lastUserMessage = (request: StubModel['requests'][number]) => [...request.messages].reverse().find(message => message.role === 'user')?.content || ''
+    
+    afterEach(() => {
+        stubServers.splice(0).forEach(server => {
+            server.closeAllConnections()
+            server.close()
+        })
+    })
+    
+    afterAll(() => {
+        tempDirs.forEach(dir => rmSync(dir, { recursive: true, force: true }))
+    })
 
     describe("Dependency Management", () => {
         it("should check all dependencies successfully", async () => {
             process.env.OPENAI_API_KEY = 'test-key'
+            mockArgv.collector = 'gitingest'
             
             // Set up mock responses for all commands
             mock$
-              .mockResolvedValueOnce({ exitCode: 0 }) // gitingest
-              .mockResolvedValueOnce({ exitCode: 0 }) // markdownlint
               .mockResolvedValueOnce({ stdout: '/usr/bin/python' }) // which python
               .mockResolvedValueOnce({ stdout: '/usr/bin/pip' }) // which pip
+              .mockResolvedValueOnce({ exitCode: 0 }) // gitingest
             
             const result = await checkDependencies()
             expect(result).toBe(true)
-            expect(mock$).toHaveBeenCalledTimes(4)
+            expect(mock$).toHaveBeenCalledTimes(3)
         })
         
         it("should detect missing gitingest dependency", async () => {
             process.env.OPENAI_API_KEY = 'test-key'
+            mockArgv.collector = 'gitingest'
             
             mock$
-              .mockResolvedValueOnce({ exitCode: 1 }) // gitingest
-              .mockResolvedValueOnce({ exitCode: 0 }) // markdownlint
               .mockResolvedValueOnce({ stdout: '/usr/bin/python' }) // which python
               .mockResolvedValueOnce({ stdout: '/usr/bin/pip' }) // which pip
+              .mockResolvedValueOnce({ exitCode: 1 }) // gitingest
             
             const result = await checkDependencies()
             expect(result).toBe(false)
-            expect(mock$).toHaveBeenCalledTimes(4)
+            expect(mock$).toHaveBeenCalledTimes(3)
         })
         
-        it("should detect missing markdownlint dependency", async () => {
-            process.env.OPENAI_API_KEY = 'test-key'
+        it("should detect missing OpenAI API key", async () => {
+            delete process.env.OPENAI_API_KEY
+            mockArgv.collector = 'gitingest'
             
             mock$
-              .mockResolvedValueOnce({ exitCode: 0 }) // gitingest
-              .mockResolvedValueOnce({ exitCode: 1 }) // markdownlint
               .mockResolvedValueOnce({ stdout: '/usr/bin/python' }) // which python
               .mockResolvedValueOnce({ stdout: '/usr/bin/pip' }) // which pip
+              .mockResolvedValueOnce({ exitCode: 0 }) // gitingest
             
             const result = await checkDependencies()
             expect(result).toBe(false)
-            expect(mock$).toHaveBeenCalledTimes(4)
+            expect(mock$).toHaveBeenCalledTimes(3)
         })
         
-        it("should detect missing OpenAI API key", async () => {
-            delete process.env.OPENAI_API_KEY
-            
-            mock$
-              .mockResolvedValueOnce({ exitCode: 0 }) // gitingest
-              .mockResolvedValueOnce({ exitCode: 0 }) // markdownlint
-              .mockResolvedValueOnce({ stdout: '/usr/bin/python' }) // which python
-              .mockResolvedValueOnce({ stdout: '/usr/bin/pip' }) // which pip
+        it("should skip Python and gitingest checks with the native collector", async () => {
+            process.env.OPENAI_API_KEY = 'test-key'
             
             const result = await checkDependencies()
-            expect(result).toBe(false)
-            expect(mock$).toHaveBeenCalledTimes(4)
+            expect(result).toBe(true)
+            expect(mock$).not.toHaveBeenCalled()
         })
         
         it("should detect pyenv environment correctly", async () => {
@@ -326,9 +528,9 @@ describe("ReReadme Script", () => {
         })
         
         it("should extract content from markdown code blocks", () => {
-            // Test: updateReadme() properly formats markdown content
-            // Mock: Content processing and formatting
-            expect(true).toBe(true)
+            const result = sanitizeModelOutput('```markdown\n# App\n\n## Usage\n\n```shell\nnpm start\n```\n```')
+            expect(result.content).toBe('# App\n\n## Usage\n\n```shell\nnpm start\n```\n')
+            expect(result.changes).toEqual(['Removed wrapping ```markdown code fence'])
         })
         
         it("should handle README update failures", () => {
@@ -338,36 +540,61 @@ describe("ReReadme Script", () => {
         })
         
         it("should format README with markdownlint", () => {
-            // Test: formatReadme() runs markdownlint --fix
-            // Mock: markdownlint command succeeds
-            expect(true).toBe(true)
-        })
-        
-        it("should handle markdownlint formatting errors", () => {
-            // Test: formatReadme() handles markdownlint failures gracefully
-            // Mock: markdownlint command returns non-zero exit code
-            expect(true).toBe(true)
-        })
+            // The fake provider echoes the README back, trailing spaces and all
+            const untidy = expectedReadme.replace('# greeter\n', '# greeter   \n')
+            const { dir, status, output } = fakeRun(['--no-template-check'], dir => writeFileSync(join(dir, 'README.md'), untidy))
+            
+            expect(status).toBe(0)
+            expect(output).toContain('README.md formatted successfully')
+            expect(readFileSync(join(dir, 'README.md'), 'utf-8')).toBe(expectedReadme)
+        }, 60000)
         
-        it("should show warnings for non-auto-fixable markdown issues", () => {
-            // Test: formatReadme() displays warnings for unfixable issues
-            // Mock: markdownlint returns warning output
-            expect(true).toBe(true)
-        })
+        it("should handle an unreadable markdownlint config", () => {
+            const { status, output } = fakeRun(['--no-template-check'], dir => writeFileSync(join(dir, '.markdownlint.json'), '{ "MD013": '))
+            
+            expect(status).toBe(0)
+            expect(output).toMatch(/Ignoring unreadable markdownlint config .*\.markdownlint\.json/)
+            expect(output).toContain('README.md formatted successfully')
+        }, 60000)
+        
+        it("should show warnings for non-auto-fixable markdown issues", async () => {
+            // Every answer, the repair included, keeps the unlabelled code block
+            const unlabelled = expectedReadme.replace('```bash\nnpm start', '```\nnpm start')
+            const stub = await startStubModel([unlabelled])
+            const { dir, status, output } = await stubRun(stub, e2eProject(), ['--lint-rounds', '1'])
+            
+            expect(status).toBe(0)
+            expect(stub.requests).toHaveLength(3)
+            expect(output).toContain('Some markdown issues found')
+            expect(output).toContain('README.md:22 MD040/fenced-code-language')
+            expect(readFileSync(join(dir, 'README.md'), 'utf-8')).toBe(unlabelled)
+        }, 60000)
     })
 
     describe("Workflow Orchestration", () => {
         it("should run complete workflow without Confluence by default", () => {
-            // Test: runWorkflow() executes steps 1 and 2 without Confluence
-            // Mock: All dependencies, gitingest, prompt processing, README update
-            expect(true).toBe(true)
-        })
-        
-        it("should include Confluence step when --confluence flag is used", () => {
-            // Test: runWorkflow() includes step 2 when confluence flag is set
-            // Mock: argv.confluence = true, verify step 2 processing
-            expect(true).toBe(true)
-        })
+            const { dir, status, output } = replay()
+            
+            expect(status).toBe(0)
+            expect(output).toContain('Processing step 1: 1_prep_readme.txt')
+            expect(output).toContain('Processing step 2: 3_gitingest_readme.txt')
+            expect(output).not.toContain('2_external_sources.txt')
+            expect(output).toContain('Response cache: 2 hit(s), 0 new response(s) stored')
+            expect(readFileSync(join(dir, 'README.md'), 'utf-8')).toBe(readFileSync(join(repoRoot, 'fixtures/e2e/expected/README.md'), 'utf-8'))
+        }, 60000)
+        
+        it("should include Confluence step when --confluence flag is used", async () => {
+            const toolCalls: unknown[] = []
+            const { server, url } = await startStubConfluence(toolCalls)
+            stubServers.push(server)
+            const dir = e2eProject(dir => writeFileSync(join(dir, 'rereadme.config.json'), JSON.stringify({ mcpServers: { confluence: { url } } })))
+            const { status, output } = await runCliAsync(dir, ['--confluence', '--no-template-check'], ['--provider', 'fake'])
+            
+            expect(status).toBe(0)
+            expect(output).toContain('Processing step 2: 2_external_sources.txt')
+            expect(output).toContain('Processing step 3: 3_gitingest_readme.txt')
+            expect(toolCalls).toHaveLength(1)
+        }, 60000)
         
         it("should process prompts in correct sequence", () => {
             // Test: runWorkflow() processes prompts in order 1, 2, 3
@@ -381,29 +608,41 @@ describe("ReReadme Script", () => {
             expect(true).toBe(true)
         })
         
-        it("should continue on errors when --continue flag is used", () => {
-            // Test: runWorkflow() continues processing after step failures
-            // Mock: argv.continue = true, one step throws error
-            expect(true).toBe(true)
-        })
+        it("should continue on errors when --continue flag is used", async () => {
+            const stub = await startStubModel([{ status: 400, message: 'Bad request' }, expectedReadme])
+            const { dir, status, output } = await stubRun(stub, e2eProject(), ['--continue'])
+            
+            expect(status).toBe(0)
+            expect(output).toContain('❌ Failed at step 1 (prep): OpenAI-compatible API call failed: 400 Bad request')
+            expect(output).toContain('Processing step 2: 3_gitingest_readme.txt')
+            expect(output).toContain('1 step(s) not completed - resume with: rereadme --resume')
+            expect(readFileSync(join(dir, 'README.md'), 'utf-8')).toBe(expectedReadme)
+        }, 60000)
         
         it("should stop on errors by default", () => {
-            // Test: runWorkflow() stops on first error without --continue
-            // Mock: Default argv, one step throws error
-            expect(true).toBe(true)
-        })
+            // Changed code means a new codebase prompt, which was never recorded
+            const { dir, status, output } = replay([], dir => appendFileSync(join(dir, 'src/index.js'), '// changed\n'))
+            
+            expect(status).toBe(1)
+            expect(output).toContain('No cached response for 2. 3_gitingest_readme.txt')
+            expect(output).toContain('resume with: rereadme --resume')
+            expect(readFileSync(join(dir, 'README.md'), 'utf-8')).toContain('Prints a greeting.')
+        }, 60000)
         
         it("should cleanup gitingest files by default", () => {
-            // Test: runWorkflow() removes gitingest files after completion
-            // Mock: Verify fs.remove calls for all gitingest outputs
-            expect(true).toBe(true)
-        })
+            const { dir, status } = replay()
+            
+            expect(status).toBe(0)
+            expect(readdirSync(dir).filter(file => file.startsWith('gitingest-'))).toEqual([])
+        }, 60000)
         
         it("should keep gitingest files when --keep-context is used", () => {
-            // Test: runWorkflow() preserves gitingest files with keep flag
-            // Mock: argv.keepContext = true, verify no fs.remove calls
-            expect(true).toBe(true)
-        })
+            const { dir, status } = replay(['--keep-context'])
+            
+            expect(status).toBe(0)
+            expect(existsSync(join(dir, 'gitingest-code.txt'))).toBe(true)
+            expect(readFileSync(join(dir, 'gitingest-code.txt'), 'utf-8')).toContain('FILE: src/index.js')
+        }, 60000)
         
         it("should handle workflow failures gracefully", () => {
             // Test: runWorkflow() logs errors and exits appropriately
@@ -661,4 +900,1512 @@ describe("ReReadme Script", () => {
             expect(true).toBe(true)
         })
     })
-})
\ No newline at end of file
+
+    describe("README.llm Generation", () => {
+        it("should accept well-formed XML with all required elements", () => {
+            const content = '<file><rules>Use zx</rules><description>d</description><structure>/src/</structure><context/></file>'
+            expect(validateReadmeLlm(content)).toEqual([])
+        })
+        
+        it("should ignore comments and escaped characters", () => {
+            const content = '<rules><!-- <base> rules --></rules><description>a &lt; b</description><structure/><context/>'
+            expect(validateReadmeLlm(content)).toEqual([])
+        })
+        
+        it("should report missing required elements", () => {
+            const problems = validateReadmeLlm('<rules></rules><description></description>')
+            expect(problems).toEqual([
+                'Missing required <structure> element',
+                'Missing required <context> element'
+            ])
+        })
+        
+        it("should report unescaped generics as unclosed tags", () => {
+            const content = '<rules/><description/><structure/><context>Promise<void></context>'
+            expect(validateReadmeLlm(content)).toContain('Unclosed tag <void>')
+        })
+        
+        it("should report mismatched closing tags", () => {
+            const problems = validateReadmeLlm('<rules><description></rules></description><structure/><context/>')
+            expect(problems).toContain('Mismatched closing tag </rules> (expected </description>)')
+        })
+        
+        it("should extract XML from a fenced code block", () => {
+            const content = 'Here you go:\n```xml\n<rules/>\n```\nDone.'
+            expect(extractXmlBlock(content)).toBe('<rules/>')
+        })
+        
+        it("should re-ask the model with the validation problems", async () => {
+            const invalid = '<rules>\n</rules>'
+            const stub = await startStubModel([expectedReadme, expectedReadme, invalid, `${invalid}\n<description>\n</description>\n<structure>\n</structure>\n<context>\n</context>`])
+            const { dir, status } = await stubRun(stub, e2eProject(), ['--llm'])
+            
+            expect(status).toBe(0)
+            expect(stub.requests).toHaveLength(4)
+            expect(lastUserMessage(stub.requests[3])).toContain('The README.llm you returned is not valid')
+            expect(stub.requests[3].messages).toContainEqual({ role: 'assistant', content: invalid })
+            expect(readFileSync(join(dir, 'README.llm'), 'utf-8')).toContain('<context>')
+        }, 60000)
+    })
+
+    describe("Subdirectory README.llm Generation", () => {
+        it("should resolve repeated and comma-separated --subdir values", async () => {
+            mockFs.stat.mockResolvedValue({ isDirectory: () => true } as never)
+            
+            await expect(resolveSubdirs(['tf/', 'k8s-tf,tf'])).resolves.toEqual(['tf', 'k8s-tf'])
+        })
+        
+        it("should auto-discover existing infra directories when no path is given", async () => {
+            mockFs.stat
+              .mockResolvedValueOnce({ isDirectory: () => true } as never) // tf
+              .mockRejectedValueOnce(new Error('ENOENT') as never) // k8s-tf
+            
+            await expect(resolveSubdirs(true)).resolves.toEqual(['tf'])
+        })
+        
+        it("should reject paths outside the repo", async () => {
+            await expect(resolveSubdirs('../other')).rejects.toThrow('Invalid --subdir path')
+        })
+        
+        it("should reject missing directories", async () => {
+            mockFs.stat.mockRejectedValueOnce(new Error('ENOENT') as never)
+            
+            await expect(resolveSubdirs('nope')).rejects.toThrow('--subdir directory not found')
+        })
+        
+        it("should scope gitingest to the subdirectory only", async () => {
+            const stub = await startStubModel([expectedReadme, expectedReadme, '<rules>\n</rules>\n<description>\n</description>\n<structure>\n</structure>\n<context>\n</context>'])
+            const { dir, status } = await stubRun(stub, e2eProject(), ['--subdir', 'src'])
+            const prompt = lastUserMessage(stub.requests[2])
+            
+            expect(status).toBe(0)
+            expect(prompt).toContain('Target subdirectory: ./src/')
+            expect(prompt).toContain('FILE: index.js')
+            expect(prompt).toContain('package.json:')
+            expect(prompt).not.toContain('FILE: README.md')
+            expect(existsSync(join(dir, 'src/README.llm'))).toBe(true)
+        }, 60000)
+    })
+
+    describe("Model Providers", () => {
+        const request = {
+            instructions: 'Standardize the README',
+            input: 'README Format:\n\n# {Project Title}\n\n---\nCurrent README.md content:\n\n# My Project\n\nHello\n\nContext:\ncode\n',
+            previousId: '',
+            messages: []
+        }
+        
+        it("should return the current README from the fake provider", () => {
+            expect(createFakeResponse(request).content).toBe('# My Project\n\nHello')
+        })
+        
+        it("should return deterministic response IDs from the fake provider", () => {
+            expect(createFakeResponse(request).responseId).toBe(createFakeResponse({ ...request }).responseId)
+            expect(createFakeResponse({ ...request, previousId: 'prev' }).responseId).not.toBe(createFakeResponse(request).responseId)
+        })
+        
+        it("should return README.llm XML from the fake provider for README.llm prompts", () => {
+            const result = createFakeResponse({ ...request, instructions: 'Generate a README.llm file' })
+            expect(validateReadmeLlm(result.content)).toEqual([])
+        })
+        
+        it("should look up credentials for the selected provider", () => {
+            const { ANTHROPIC_API_KEY, ...env } = process.env
+            const { status, output } = runCli(e2eProject(), ['--check'], ['--provider', 'anthropic'], env)
+            
+            expect(status).toBe(1)
+            expect(output).toContain('❌ ANTHROPIC_API_KEY environment variable not set')
+            expect(output).not.toContain('OPENAI_API_KEY')
+        }, 60000)
+        
+        it("should list each provider's default model in the help", () => {
+            const { status, output } = runCli(e2eProject(), ['--help'], [])
+            
+            expect(status).toBe(0)
+            expect(output).toContain('openai: gpt-5-nano, azure: gpt-5-nano, anthropic: claude-3-5-haiku-latest')
+            expect(output).not.toContain('gpt-4.1-nano')
+        }, 60000)
+        
+        it("should replay local history for providers without response chaining", async () => {
+            const stub = await startStubModel([expectedReadme])
+            const { status } = await stubRun(stub, e2eProject())
+            
+            expect(status).toBe(0)
+            expect(stub.requests[0].messages.map(message => message.role)).toEqual(['system', 'user'])
+            expect(stub.requests[1].messages.map(message => message.role)).toEqual(['system', 'user', 'assistant', 'user'])
+            expect(stub.requests[1].messages[1].content).toBe(lastUserMessage(stub.requests[0]))
+            expect(stub.requests[1].messages[2].content).toBe(expectedReadme)
+        }, 60000)
+    })
+
+    describe("Project Config File", () => {
+        it("should accept a valid config", () => {
+            expect(validateConfig({
+                sizeLimit: 80000,
+                contexts: [{ output: 'gitingest-code.txt', include: ['lib/'], exclude: [] }],
+                steps: [{ prompt: '1_prep_readme.txt' }, { prompt: '3_gitingest_readme.txt', context: 'gitingest-code.txt' }],
+                subdirs: ['infra'],
+                defaults: { model: 'gpt-4o', llm: true }
+            })).toEqual([])
+        })
+        
+        it("should reject non-object configs", () => {
+            expect(validateConfig([])).toEqual(['config must be a JSON object'])
+        })
+        
+        it("should report unknown keys and flags", () => {
+            const errors = validateConfig({ sizeLimt: 1, defaults: { modle: 'x' } })
+            expect(errors).toContainEqual(expect.stringContaining('unknown key "sizeLimt"'))
+            expect(errors).toContainEqual(expect.stringContaining('defaults has unknown flag "modle"'))
+        })
+        
+        it("should report invalid context bundles with their index", () => {
+            const errors = validateConfig({ contexts: [{ output: 'a.txt', include: 'src/' }, { sizeLimit: 0 }] })
+            expect(errors).toEqual([
+                'contexts[0].include must be an array of strings',
+                'contexts[1].output must be a non-empty string',
+                'contexts[1].sizeLimit must be a positive integer'
+            ])
+        })
+        
+        it("should reject steps that reference unknown context bundles", () => {
+            const errors = validateConfig({ steps: [{ prompt: '3_gitingest_readme.txt', context: 'missing.txt' }] })
+            expect(errors).toEqual([expect.stringContaining('steps[0].context "missing.txt" does not match any context output')])
+        })
+        
+        it("should let CLI flags override config defaults", () => {
+            const configure = (dir: string) => writeFileSync(join(dir, 'rereadme.config.json'), JSON.stringify({ defaults: { 'keep-context': true } }))
+            const fromConfig = fakeRun(['--no-template-check'], configure)
+            const fromFlag = fakeRun(['--no-template-check', '--no-keep-context'], configure)
+            
+            expect(fromConfig.status).toBe(0)
+            expect(existsSync(join(fromConfig.dir, 'gitingest-code.txt'))).toBe(true)
+            expect(fromFlag.status).toBe(0)
+            expect(existsSync(join(fromFlag.dir, 'gitingest-code.txt'))).toBe(false)
+        }, 60000)
+    })
+
+    describe("Native Context Collector", () => {
+        const files = ['package.json', 'script.ts', 'src/index.ts', 'src/gen/api.generated.ts', 'src/a.snap', 'tf/main.tf', 'docs/adr.md']
+        
+        it("should match directory patterns against every file below them", () => {
+            expect(matchesPattern('src/deep/file.ts', 'src/')).toBe(true)
+            expect(matchesPattern('tf/main.tf', 'tf')).toBe(true)
+            expect(matchesPattern('k8s-tf/main.tf', 'tf/')).toBe(false)
+        })
+        
+        it("should let * cross directories like gitingest", () => {
+            expect(matchesPattern('src/deep/file.ts', '*.ts')).toBe(true)
+            expect(matchesPattern('src/gen/api.generated.ts', '*generated*')).toBe(true)
+        })
+        
+        it("should apply include and exclude patterns", () => {
+            expect(selectFiles(files, ['src/', 'package.json', '*.ts'], ['*.snap', '*generated*'])).toEqual([
+                'package.json', 'script.ts', 'src/index.ts'
+            ])
+        })
+        
+        it("should include everything when no include patterns are given", () => {
+            expect(selectFiles(files, [], ['docs/'])).toHaveLength(files.length - 1)
+        })
+        
+        it("should render a gitingest-style directory tree", () => {
+            expect(renderDirectoryTree('repo', ['src/index.ts', 'package.json', 'src/lib/util.ts'])).toBe([
+                'Directory structure:',
+                '└── repo/',
+                '    ├── package.json',
+                '    └── src/',
+                '        ├── index.ts',
+                '        └── lib/',
+                '            └── util.ts'
+            ].join('\n'))
+        })
+        
+        it("should skip files over the size limit and binary files", () => {
+            const { dir, status } = fakeRun(['--no-template-check', '--keep-context'], dir => {
+                writeFileSync(join(dir, 'src/bundle.js'), 'x'.repeat(60000))
+                writeFileSync(join(dir, 'src/logo.js'), Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x00, 0x01]))
+            })
+            const digest = readFileSync(join(dir, 'gitingest-code.txt'), 'utf-8')
+            
+            expect(status).toBe(0)
+            expect(digest).toContain('FILE: src/index.js')
+            expect(digest).not.toContain('FILE: src/bundle.js')
+            expect(digest).not.toContain('FILE: src/logo.js')
+        }, 60000)
+        
+        it("should respect .gitignore", () => {
+            const { dir, status } = fakeRun(['--no-template-check', '--keep-context'], dir => {
+                writeFileSync(join(dir, '.gitignore'), 'src/secrets.js\n')
+                writeFileSync(join(dir, 'src/secrets.js'), 'export const token = "hunter2"\n')
+            })
+            const digest = readFileSync(join(dir, 'gitingest-code.txt'), 'utf-8')
+            
+            expect(status).toBe(0)
+            expect(digest).toContain('FILE: src/index.js')
+            expect(digest).not.toContain('hunter2')
+        }, 60000)
+    })
+
+    describe("Dry Run and Diff Output", () => {
+        it("should build a git-style unified diff", () => {
+            const patch = buildPatch('README.md', '# Title\n\nOld text\n', '# Title\n\nNew text\n')
+            expect(patch.split('\n').slice(0, 2)).toEqual(['--- a/README.md', '+++ b/README.md'])
+            expect(patch).toContain('-Old text')
+            expect(patch).toContain('+New text')
+        })
+        
+        it("should diff new files against /dev/null", () => {
+            const patch = buildPatch('README.llm', null, '<rules/>\n')
+            expect(patch.startsWith('--- /dev/null\n+++ b/README.llm')).toBe(true)
+            expect(patch).toContain('+<rules/>')
+        })
+        
+        it("should hold writes in memory instead of touching the file", async () => {
+            const stub = await startStubModel([expectedReadme])
+            const { dir, status, output } = await stubRun(stub, e2eProject(), ['--dry-run'])
+            
+            expect(status).toBe(0)
+            expect(output).toContain('Held README.md changes in memory (dry run)')
+            expect(readFileSync(join(dir, 'README.md'), 'utf-8')).toBe(readFileSync(join(repoRoot, 'fixtures/e2e/project/README.md'), 'utf-8'))
+            expect(existsSync(join(dir, '.rereadme/backups'))).toBe(false)
+        }, 60000)
+        
+        it("should write a patch file with --diff-out", async () => {
+            const stub = await startStubModel([expectedReadme])
+            const { dir, status } = await stubRun(stub, e2eProject(), ['--diff-out', 'readme.patch'])
+            const patch = readFileSync(join(dir, 'readme.patch'), 'utf-8')
+            
+            expect(status).toBe(0)
+            expect(patch).toContain('--- a/README.md')
+            expect(patch).toContain('-Prints a greeting.')
+            expect(patch).toContain('+## Getting Started')
+            expect(readFileSync(join(dir, 'README.md'), 'utf-8')).toContain('Prints a greeting.')
+        }, 60000)
+    })
+
+    describe("CI Drift Check", () => {
+        const committed = '# App\n\nIntro text.\n\n## Usage\n\nRun `npm start` to launch the app.\n\n## Help\n\nAsk in chat.\n'
+        
+        it("should split markdown into sections by heading", () => {
+            const sections = parseSections(committed)
+            expect(sections.map(section => [section.heading, section.level, section.line])).toEqual([
+                ['App', 1, 1],
+                ['Usage', 2, 5],
+                ['Help', 2, 9]
+            ])
+        })
+        
+        it("should ignore headings inside code fences", () => {
+            const sections = parseSections('## Usage\n\n```shell\n# not a heading\n```\n')
+            expect(sections).toHaveLength(1)
+        })
+        
+        it("should ignore case, punctuation and whitespace when scoring similarity", () => {
+            expect(textSimilarity('Run `npm start`.', 'run npm   START')).toBe(1)
+            expect(textSimilarity('one two three four', 'one two three five')).toBeCloseTo(0.75)
+        })
+        
+        it("should report an unchanged README as fresh", () => {
+            const drift = compareSections('README.md', committed, committed, 0.8)
+            expect(drift.stale).toBe(false)
+            expect(drift.sections.every(section => section.status === 'unchanged')).toBe(true)
+        })
+        
+        it("should tolerate small wording changes below the threshold", () => {
+            const reworded = committed.replace('to launch the app', 'to launch the application')
+            const drift = compareSections('README.md', committed, reworded, 0.8)
+            expect(drift.stale).toBe(false)
+            expect(drift.sections[1].status).toBe('changed')
+        })
+        
+        it("should flag rewritten, added and removed sections", () => {
+            const regenerated = '# App\n\nIntro text.\n\n## Usage\n\nUse the docker compose file with the worker profile.\n\n## Configuration\n\nSet PORT.\n'
+            const drift = compareSections('README.md', committed, regenerated, 0.8)
+            expect(drift.stale).toBe(true)
+            expect(drift.sections.map(section => [section.heading, section.status])).toEqual([
+                ['App', 'unchanged'],
+                ['Usage', 'stale'],
+                ['Help', 'removed'],
+                ['Configuration', 'added']
+            ])
+        })
+        
+        it("should write a JSON report and GitHub Actions annotations", () => {
+            const { dir, status, output } = replay(['--ci'])
+            const report = JSON.parse(readFileSync(join(dir, 'rereadme-drift.json'), 'utf-8'))
+            
+            expect(status).toBe(1)
+            expect(report).toMatchObject({ stale: true, model: 'fixture-model', files: [expect.objectContaining({ file: 'README.md', stale: true })] })
+            expect(output).toMatch(/^::warning file=README\.md,line=\d+,title=Stale README section::Section "Getting Started" is missing from README\.md$/m)
+            expect(output).toContain('README.md is out of date')
+        }, 60000)
+    })
+
+    describe("Protected Regions", () => {
+        const readme = '# App\n\n<!-- rereadme:keep id="legal" -->\nLicensed under **MIT**.\n<!-- /rereadme:keep -->\n\n## Help\n\n<!-- rereadme:keep id="oncall" -->Page @team<!-- /rereadme:keep -->\n'
+        
+        it("should replace protected regions with empty marker pairs", () => {
+            const { content, regions } = extractProtectedRegions(readme)
+            expect(content).toBe('# App\n\n<!-- rereadme:keep id="legal" --><!-- /rereadme:keep -->\n\n## Help\n\n<!-- rereadme:keep id="oncall" --><!-- /rereadme:keep -->\n')
+            expect([...regions.keys()]).toEqual(['legal', 'oncall'])
+        })
+        
+        it("should restore regions verbatim", () => {
+            const { content, regions } = extractProtectedRegions(readme)
+            expect(restoreProtectedRegions(content, regions)).toEqual({ content: readme, lost: [], duplicated: [], unknown: [] })
+        })
+        
+        it("should undo model edits inside a region", () => {
+            const { regions } = extractProtectedRegions(readme)
+            const edited = readme.replace('Licensed under **MIT**.', 'MIT licensed')
+            expect(restoreProtectedRegions(edited, regions).content).toBe(readme)
+        })
+        
+        it("should report lost, duplicated and unknown markers", () => {
+            const { regions } = extractProtectedRegions(readme)
+            const output = '<!-- rereadme:keep id="legal" --><!-- /rereadme:keep -->\n<!-- rereadme:keep id="legal" --><!-- /rereadme:keep -->\n<!-- rereadme:keep id="badges" --><!-- /rereadme:keep -->'
+            const result = restoreProtectedRegions(output, regions)
+            expect(result.lost).toEqual(['oncall'])
+            expect(result.duplicated).toEqual(['legal'])
+            expect(result.unknown).toEqual(['badges'])
+        })
+        
+        it("should reject unclosed and duplicate regions in the input", () => {
+            expect(() => extractProtectedRegions('<!-- rereadme:keep id="a" -->text')).toThrow('has no closing')
+            expect(() => extractProtectedRegions('<!-- rereadme:keep id="a" --><!-- /rereadme:keep --><!-- rereadme:keep id="a" --><!-- /rereadme:keep -->')).toThrow('Duplicate protected region id "a"')
+        })
+        
+        it("should fail the step when the model drops a region", async () => {
+            const readme = '# greeter\n\n<!-- rereadme:keep id="badges" -->\n[![npm](https://img.shields.io/npm/v/greeter.svg)](https://www.npmjs.com/package/greeter)\n<!-- /rereadme:keep -->\n\nPrints a greeting.\n'
+            const stub = await startStubModel([expectedReadme])
+            const { dir, status, output } = await stubRun(stub, e2eProject(dir => writeFileSync(join(dir, 'README.md'), readme)))
+            
+            expect(status).toBe(1)
+            expect(output).toContain('Model output dropped protected region(s): badges - README.md left unchanged')
+            expect(readFileSync(join(dir, 'README.md'), 'utf-8')).toBe(readme)
+        }, 60000)
+    })
+
+    describe("Claim Verification", () => {
+        const readme = [
+            '# App',
+            '',
+            'Run `npm run build` and `npm test`, then open `src/index.ts` or read [the guide](docs/guide.md#setup).',
+            '',
+            '```shell',
+            'export API_TOKEN=xyz',
+            'app --verbose --turbo',
+            'npm install -g --force other-tool',
+            '```',
+            '',
+            'Set `DATABASE_URL` first. See [Docs](https://example.com).'
+        ].join('\n')
+        
+        const facts = {
+            scripts: new Set(['build', 'start']),
+            envVars: new Set(['DATABASE_URL']),
+            flags: new Set(['--verbose']),
+            toolNames: ['app'],
+            pathExists: async (p: string) => ['src/index.ts'].includes(p)
+        }
+        
+        it("should extract scripts, paths, env vars and tool flags", () => {
+            const claims = extractClaims(readme, ['app'])
+            expect(claims.map(claim => `${claim.kind}:${claim.value}@${claim.line}`)).toEqual([
+                'script:build@3',
+                'script:test@3',
+                'path:src/index.ts@3',
+                'path:docs/guide.md@3',
+                'env:API_TOKEN@6',
+                'flag:--verbose@7',
+                'flag:--turbo@7',
+                'env:DATABASE_URL@11'
+            ])
+        })
+        
+        it("should not treat other tools' flags or URLs as claims", () => {
+            const claims = extractClaims(readme, ['app'])
+            expect(claims.find(claim => claim.value === '--force')).toBeUndefined()
+            expect(claims.find(claim => claim.value.includes('example.com'))).toBeUndefined()
+        })
+        
+        it("should report claims that don't match the repo", async () => {
+            const unverified = await findUnverifiedClaims(extractClaims(readme, ['app']), facts)
+            expect(unverified.map(claim => claim.value)).toEqual(['test', 'docs/guide.md', 'API_TOKEN', '--turbo'])
+        })
+        
+        it("should skip flag checks without a help command", async () => {
+            const unverified = await findUnverifiedClaims(extractClaims(readme, ['app']), { ...facts, flags: null })
+            expect(unverified.map(claim => claim.kind)).not.toContain('flag')
+        })
+        
+        it("should check flags against the package.json bin without --verify-help", async () => {
+            const stub = await startStubModel([`${expectedReadme}\n\`\`\`shell\ngreeter --shout Ada\n\`\`\`\n`])
+            const { output } = await stubRun(stub, e2eProject(), ['--verbose'])
+            
+            expect(output).toContain('Checking flags against the output of: node src/index.js --help')
+            expect(output).toContain('flag "--shout" does not appear in the CLI help output')
+        }, 60000)
+        
+        it("should send unverifiable claims back to the model with --verify-fix", async () => {
+            const unverified = `${expectedReadme}\nDeploy it with \`npm run deploy\`.\n`
+            const stub = await startStubModel([unverified, expectedReadme])
+            const { dir, status } = await stubRun(stub, e2eProject(), ['--verify-fix'])
+            
+            expect(status).toBe(0)
+            expect(lastUserMessage(stub.requests[1])).toContain('npm script "deploy" is not defined in package.json')
+            expect(stub.requests[1].messages).toContainEqual({ role: 'assistant', content: unverified })
+            expect(readFileSync(join(dir, 'README.md'), 'utf-8')).not.toContain('npm run deploy')
+        }, 60000)
+    })
+
+    describe("Template Structure Validation", () => {
+        const template = [
+            '# {Project Title}',
+            '## Description',
+            'Describe it.',
+            '## Getting Started',
+            '### Installation',
+            'Install it.',
+            '## Usage',
+            'Use it.',
+            '## Architecture and Diagrams',
+            '(Optional) Diagrams.',
+            '## Help',
+            '(Optional) Tips.'
+        ].join('\n')
+        const sections = parseTemplateSections(template)
+        
+        it("should read required, optional and placeholder sections from the template", () => {
+            expect(sections.map(section => [section.heading, section.optional, section.placeholder])).toEqual([
+                ['{Project Title}', false, true],
+                ['Description', false, false],
+                ['Getting Started', false, false],
+                ['Installation', false, false],
+                ['Usage', false, false],
+                ['Architecture and Diagrams', true, false],
+                ['Help', true, false]
+            ])
+        })
+        
+        it("should accept output that follows the template", () => {
+            const readme = '# My App\n## Description\n## Getting Started\n### Installation\n## Usage\n## Architecture & Diagrams'
+            expect(validateStructure(readme, sections)).toEqual([])
+        })
+        
+        it("should not require optional sections", () => {
+            const readme = '# My App\n## Description\n## Getting Started\n### Installation\n## Usage'
+            expect(validateStructure(readme, sections)).toEqual([])
+        })
+        
+        it("should report missing and out-of-order sections", () => {
+            const readme = '# My App\n## Usage\n## Description\n## Getting Started'
+            expect(validateStructure(readme, sections)).toEqual([
+                'Missing required section "### Installation"',
+                'Section "## Usage" must come after "## Getting Started"'
+            ])
+        })
+        
+        it("should require a title heading", () => {
+            expect(validateStructure('## Description\n## Getting Started\n### Installation\n## Usage', sections)).toEqual([
+                'Missing required section level 1 title'
+            ])
+        })
+        
+        it("should ask the model to repair the structure with a bounded retry count", async () => {
+            const stub = await startStubModel(['# greeter\n\nPrints a greeting.\n'])
+            const { status, output } = await stubRun(stub, e2eProject(), ['--template-retries', '1'])
+            
+            expect(status).toBe(0)
+            expect(stub.requests).toHaveLength(4) // One repair request for each of the two steps
+            expect(lastUserMessage(stub.requests[1])).toContain('The README you returned does not follow the README Format')
+            expect(lastUserMessage(stub.requests[1])).toContain('Missing required section "## Usage"')
+            expect(stub.requests[1].messages.map(message => message.role)).toEqual(['system', 'user', 'assistant', 'user'])
+            expect(output).toContain('Step 2 output still deviates from the README template')
+        }, 60000)
+    })
+
+    describe("Retries and Timeouts", () => {
+        const retryOptions = { maxRetries: 3, baseDelayMs: 1000, maxDelayMs: 30000 }
+        const request = { instructions: 'Refresh the README', input: '# Old', previousId: '', messages: [] }
+        let server: http.Server
+        let baseUrl: string
+        let replies: Array<{ status: number; headers?: Record<string, string>; body: unknown }>
+        let requestCount: number
+        
+        beforeEach(async () => {
+            requestCount = 0
+            server = http.createServer((req, res) => {
+                let body = ''
+                req.on('data', chunk => { body += chunk })
+                req.on('end', () => {
+                    const reply = replies[Math.min(requestCount, replies.length - 1)]
+                    requestCount++
+                    // Responses API calls stream by default, so successful replies go out as server-sent events
+                    if (reply.status === 200 && JSON.parse(body || '{}').stream) {
+                        res.writeHead(200, { 'content-type': 'text/event-stream' })
+                        res.end(responseEvents(reply.body as StubResponse))
+                        return
+                    }
+                    res.writeHead(reply.status, { 'content-type': 'application/json', ...reply.headers })
+                    res.end(JSON.stringify(reply.body))
+                })
+            })
+            await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve))
+            baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`
+        })
+        
+        afterEach(async () => {
+            await new Promise(resolve => server.close(resolve))
+        })
+        
+        it("should parse Retry-After as seconds, HTTP date or milliseconds", () => {
+            const now = Date.parse('Sun, 18 Oct 2026 12:00:00 GMT')
+            expect(parseRetryAfter({ 'retry-after': '7' })).toBe(7000)
+            expect(parseRetryAfter(new Headers({ 'retry-after': 'Sun, 18 Oct 2026 12:00:05 GMT' }), now)).toBe(5000)
+            expect(parseRetryAfter({ 'retry-after-ms': '250', 'retry-after': '7' })).toBe(250)
+            expect(parseRetryAfter({})).toBeNull()
+        })
+        
+        it("should only retry rate limits, timeouts, server errors and dropped connections", () => {
+            expect(isRetryableError({ status: 429 })).toBe(true)
+            expect(isRetryableError({ status: 503 })).toBe(true)
+            expect(isRetryableError({ status: 400 })).toBe(false)
+            expect(isRetryableError({ status: 401 })).toBe(false)
+            expect(isRetryableError(Object.assign(new Error('timed out'), { name: 'TimeoutError' }))).toBe(true)
+            expect(isRetryableError(new TypeError('fetch failed'))).toBe(true)
+            expect(isRetryableError(new Error('Response was cut off'))).toBe(false)
+        })
+        
+        it("should back off exponentially with jitter up to the maximum delay", () => {
+            expect(computeBackoffDelay(1, retryOptions, () => 0)).toBe(500)
+            expect(computeBackoffDelay(3, retryOptions, () => 1)).toBe(4000)
+            expect(computeBackoffDelay(10, retryOptions, () => 1)).toBe(30000)
+        })
+        
+        it("should give up after the configured number of retries", async () => {
+            const operation = jest.fn(async () => { throw Object.assign(new Error('overloaded'), { status: 529 }) })
+            await expect(withRetry(operation, { ...retryOptions, maxRetries: 2 })).rejects.toThrow('overloaded')
+            expect(operation).toHaveBeenCalledTimes(3)
+        })
+        
+        it("should retry a rate-limited Responses API call and honour Retry-After", async () => {
+            replies = [
+                { status: 429, headers: { 'retry-after': '2' }, body: { error: { message: 'Rate limit reached' } } },
+                { status: 200, body: { id: 'resp_2', object: 'response', status: 'completed', output: [{ type: 'message', role: 'assistant', content: [{ type: 'output_text', text: '# New', annotations: [] }] }] } }
+            ]
+            const client = new OpenAI({ apiKey: 'test', baseURL: baseUrl, maxRetries: 0 })
+            const onRetry = jest.fn()
+            
+            const result = await withRetry(() => createResponsesApiResponse(client, request), { ...retryOptions, onRetry })
+            
+            expect(result).toEqual({ content: '# New', responseId: 'resp_2' })
+            expect(requestCount).toBe(2)
+            expect(onRetry).toHaveBeenCalledWith(expect.anything(), 1, 2000)
+        })
+        
+        it("should give up straight away when Retry-After exceeds the maximum delay", async () => {
+            const operation = jest.fn(async () => { throw Object.assign(new Error('Rate limit reached'), { status: 429, headers: { 'retry-after': '120' } }) })
+            const onRetry = jest.fn()
+            
+            await expect(withRetry(operation, { ...retryOptions, onRetry })).rejects.toThrow('Rate limit reached')
+            expect(operation).toHaveBeenCalledTimes(1)
+            expect(onRetry).not.toHaveBeenCalled()
+        })
+        
+        it("should refuse an incomplete response instead of returning truncated output", async () => {
+            replies = [
+                { status: 200, body: { id: 'resp_1', object: 'response', status: 'incomplete', incomplete_details: { reason: 'max_output_tokens' }, output: [] } }
+            ]
+            const client = new OpenAI({ apiKey: 'test', baseURL: baseUrl, maxRetries: 0 })
+            
+            await expect(withRetry(() => createResponsesApiResponse(client, request), retryOptions)).rejects.toThrow('--max-output-tokens')
+            expect(requestCount).toBe(1)
+        })
+        
+        it("should retry Anthropic server errors", async () => {
+            replies = [
+                { status: 529, body: { error: { message: 'Overloaded' } } },
+                { status: 200, body: { id: 'msg_1', content: [{ type: 'text', text: '# New' }], stop_reason: 'end_turn' } }
+            ]
+            
+            const result = await withRetry(() => createAnthropicResponse(baseUrl, 'test', request), retryOptions)
+            
+            expect(result.content).toBe('# New')
+            expect(requestCount).toBe(2)
+        })
+    })
+
+    describe("Checkpointed Runs", () => {
+        const run = (id: string, startedAt: string, status: 'running' | 'completed') => ({
+            id, status, startedAt, updatedAt: startedAt, provider: 'openai', model: 'gpt-5-nano',
+            outputFile: 'README.md', prompts: ['1_prep_readme.txt'], contexts: [], steps: []
+        })
+        
+        it("should resume the most recently started incomplete run", () => {
+            const runs = [
+                run('older', '2026-10-01T10:00:00.000Z', 'running'),
+                run('newest', '2026-10-03T10:00:00.000Z', 'completed'),
+                run('latest-failed', '2026-10-02T10:00:00.000Z', 'running')
+            ]
+            expect(findLatestIncompleteRun(runs)?.id).toBe('latest-failed')
+        })
+        
+        it("should find nothing to resume when every run completed", () => {
+            expect(findLatestIncompleteRun([run('done', '2026-10-01T10:00:00.000Z', 'completed')])).toBeUndefined()
+        })
+        
+        it("should skip checkpointed steps and continue the response chain", async () => {
+            const dir = e2eProject()
+            const failing = await startStubModel([expectedReadme, { status: 400, message: 'Bad request' }])
+            const first = await stubRun(failing, dir)
+            expect(first.status).toBe(1)
+            expect(first.output).toContain('resume with: rereadme --resume')
+            
+            const stub = await startStubModel([expectedReadme])
+            const { status, output } = await stubRun(stub, dir, ['--resume'])
+            
+            expect(status).toBe(0)
+            expect(output).toContain('Step 1 (prep) already completed')
+            expect(stub.requests).toHaveLength(1)
+            expect(stub.requests[0].messages.map(message => message.role)).toEqual(['system', 'user', 'assistant', 'user'])
+            expect(stub.requests[0].messages[2].content).toBe(expectedReadme)
+        }, 60000)
+        
+        it("should refuse to resume when the step list changed", async () => {
+            const dir = e2eProject()
+            const stub = await startStubModel([expectedReadme, { status: 400, message: 'Bad request' }])
+            expect((await stubRun(stub, dir)).status).toBe(1)
+            
+            const { status, output } = await stubRun(stub, dir, ['--resume', '--sources', 'docs/**/*.md'])
+            
+            expect(status).toBe(1)
+            expect(output).toContain('but the current configuration has 1_prep_readme.txt, 2_external_sources.txt, 3_gitingest_readme.txt - start a fresh run instead')
+            expect(stub.requests).toHaveLength(2)
+        }, 60000)
+    })
+
+    describe("Token Usage and Cost", () => {
+        const pricing = {
+            'gpt-4.1': { input: 2, cachedInput: 0.5, output: 8 },
+            'gpt-4.1-nano': { input: 0.1, cachedInput: 0.025, output: 0.4 },
+            'local-model': { input: 0, output: 0 }
+        }
+        const usage = (inputTokens: number, outputTokens: number, cachedInputTokens = 0) => ({ inputTokens, cachedInputTokens, outputTokens })
+        
+        it("should match dated model snapshots to the longest priced name", () => {
+            expect(findModelPricing('gpt-4.1-nano-2025-04-14', pricing)).toBe(pricing['gpt-4.1-nano'])
+            expect(findModelPricing('gpt-4.1-2025-04-14', pricing)).toBe(pricing['gpt-4.1'])
+            expect(findModelPricing('gpt-4.10', pricing)).toBeUndefined()
+        })
+        
+        it("should bill cached input at the cached price", () => {
+            expect(calculateCost(usage(1_000_000, 1_000_000, 400_000), pricing['gpt-4.1'])).toBeCloseTo(1.2 + 0.2 + 8)
+            expect(calculateCost(usage(1000, 1000, 1000), pricing['local-model'])).toBe(0)
+        })
+        
+        it("should estimate about four characters per token", () => {
+            expect(estimateTokens('a'.repeat(400))).toBe(100)
+            expect(estimateTokens('abc')).toBe(1)
+        })
+        
+        it("should stop before a call that would exceed the token budget", () => {
+            const spent = [{ label: '1. 1_prep_readme.txt', usage: usage(800, 200), cost: 0.001 }]
+            expect(checkBudget(spent, 500, { maxTokens: 2000 }, pricing['gpt-4.1'])).toBeNull()
+            expect(checkBudget(spent, 1500, { maxTokens: 2000 }, pricing['gpt-4.1'])).toContain('--max-tokens 2000')
+        })
+        
+        it("should stop before a call whose estimated input cost would exceed the cost budget", () => {
+            const spent = [{ label: '1. 1_prep_readme.txt', usage: usage(800, 200), cost: 0.009 }]
+            expect(checkBudget(spent, 100_000, { maxCost: 0.5 }, pricing['gpt-4.1'])).toBeNull()
+            expect(checkBudget(spent, 250_000, { maxCost: 0.5 }, pricing['gpt-4.1'])).toContain('--max-cost $0.5')
+            expect(checkBudget([], 10, { maxCost: 1 }, undefined)).toContain('add it under "pricing"')
+        })
+        
+        it("should total usage per step in the summary table", () => {
+            const lines = formatUsageSummary([
+                { label: '1. 1_prep_readme.txt', usage: usage(1000, 100), cost: 0.001 },
+                { label: '1. 1_prep_readme.txt', usage: usage(1200, 150, 1000), cost: 0.0005 },
+                { label: '2. README.llm', usage: usage(500, 50), cost: null }
+            ])
+            expect(lines).toHaveLength(4)
+            expect(lines[1]).toMatch(/^1\. 1_prep_readme\.txt\s+2\s+2200\s+1000\s+250\s+\$0\.0015$/)
+            expect(lines[2]).toMatch(/-$/)
+            expect(lines[3]).toMatch(/^Total\s+3\s+2700\s+1000\s+300\s+-$/)
+        })
+        
+        it("should not let --continue skip past an exceeded budget", () => {
+            const { status, output } = fakeRun(['--continue', '--max-tokens', '500'])
+            
+            expect(status).toBe(1)
+            expect(output).toContain('would exceed --max-tokens 500')
+            expect(output).not.toContain('Processing step 2')
+        }, 60000)
+    })
+
+    describe("Backup Management", () => {
+        const now = Date.parse('2026-10-18T12:00:00.000Z')
+        const backup = (id: string, daysOld: number, runId = 'run-a') => ({
+            id, file: 'README.md', createdAt: new Date(now - daysOld * 24 * 60 * 60 * 1000).toISOString(),
+            runId, step: '1. 1_prep_readme.txt', provider: 'openai', model: 'gpt-5-nano'
+        })
+        
+        it("should keep the newest backups and anything younger than the maximum age", () => {
+            const backups = [backup('new', 1), backup('recent', 10), backup('old', 40), backup('older', 50)]
+            expect(selectBackupsToPrune(backups, { keep: 2, maxAgeDays: 30 }, now).map(entry => entry.id)).toEqual(['old', 'older'])
+            expect(selectBackupsToPrune(backups, { keep: 3, maxAgeDays: 30 }, now).map(entry => entry.id)).toEqual(['older'])
+            expect(selectBackupsToPrune(backups, { keep: 0, maxAgeDays: 45 }, now).map(entry => entry.id)).toEqual(['older'])
+        })
+        
+        it("should never prune backups from the current run", () => {
+            const backups = [backup('a', 60, 'current'), backup('b', 61, 'run-b')]
+            expect(selectBackupsToPrune(backups, { keep: 0, maxAgeDays: 30 }, now, 'current').map(entry => entry.id)).toEqual(['b'])
+        })
+        
+        it("should find a backup by full timestamp or unique prefix", () => {
+            const backups = [backup('2026-10-18T10-00-00-000Z', 0), backup('2026-10-17T09-00-00-000Z', 1)]
+            expect(findBackup(backups, '2026-10-17T09-00-00-000Z').id).toBe('2026-10-17T09-00-00-000Z')
+            expect(findBackup(backups, '2026-10-18').id).toBe('2026-10-18T10-00-00-000Z')
+            expect(() => findBackup(backups, '2026-10')).toThrow('matches 2 backups')
+            expect(() => findBackup(backups, '2025')).toThrow('No backup matches "2025"')
+        })
+        
+        it("should back up the file being replaced before restoring", async () => {
+            const stub = await startStubModel([expectedReadme.replace('A small command line tool', 'A tiny tool'), expectedReadme])
+            const dir = e2eProject()
+            expect((await stubRun(stub, dir)).status).toBe(0)
+            
+            const { status, output } = runCli(dir, ['restore'], [])
+            const backupsDir = join(dir, '.rereadme/backups')
+            const restoreBackup = readdirSync(backupsDir)
+                .find(id => JSON.parse(readFileSync(join(backupsDir, id, 'backup.json'), 'utf-8')).step.startsWith('restore '))
+            
+            expect(status).toBe(0)
+            expect(output).toContain('Backed up current README.md')
+            expect(restoreBackup).toBeDefined()
+            expect(readFileSync(join(backupsDir, restoreBackup as string, 'README.md'), 'utf-8')).toBe(expectedReadme)
+            expect(readFileSync(join(dir, 'README.md'), 'utf-8')).not.toBe(expectedReadme)
+        }, 60000)
+    })
+
+    describe("Output Sanitisation", () => {
+        it("should strip chatty preambles and postscripts around a fenced README", () => {
+            const result = sanitizeModelOutput('Here is the updated README:\n\n```md\n# App\n\n## Description\n```\n\nLet me know if you need changes!')
+            expect(result.content).toBe('# App\n\n## Description\n')
+            expect(result.changes).toEqual([
+                'Removed wrapping ```md code fence',
+                'Removed preamble "Here is the updated README:"',
+                'Removed postscript "Let me know if you need changes!"'
+            ])
+        })
+        
+        it("should strip chatter around an unfenced README, including a dangling rule", () => {
+            const result = sanitizeModelOutput("Sure! Here's the refreshed README.\n\n# App\n\n## Description\n\nText.\n\n---\n\nI've updated the Usage section.")
+            expect(result.content).toBe('# App\n\n## Description\n\nText.\n')
+            expect(result.changes).toHaveLength(2)
+        })
+        
+        it("should keep README text that only looks like chatter", () => {
+            const readme = '# App\n\nHere is how it works.\n\n## Help\n\nFeel free to open an issue.\n'
+            expect(sanitizeModelOutput(readme)).toEqual({ content: readme, changes: [] })
+        })
+        
+        it("should not unwrap a fence whose inner code blocks are unbalanced", () => {
+            const truncated = '```markdown\n# App\n\n```shell\nnpm start\n```'
+            expect(sanitizeModelOutput(truncated).changes).toEqual([])
+        })
+        
+        it("should normalise line endings", () => {
+            expect(sanitizeModelOutput('# App\r\n\r\nText\r\n')).toEqual({
+                content: '# App\n\nText\n',
+                changes: ['Normalised line endings to LF']
+            })
+        })
+        
+        it("should fix heading levels outside code blocks", () => {
+            expect(sanitizeModelOutput('## App\n\n### Description\n\n##### Deep\n').content).toBe('# App\n\n## Description\n\n### Deep\n')
+            expect(sanitizeModelOutput('# App\n\n# Description\n\n## Details\n\n# Usage\n').content).toBe('# App\n\n## Description\n\n### Details\n\n## Usage\n')
+            expect(sanitizeModelOutput('# App\n\n## Description\n\n# Usage\n').content).toBe('# App\n\n## Description\n\n## Usage\n')
+            expect(sanitizeModelOutput('# App\n\n```md\n# not a heading\n```\n').changes).toEqual([])
+        })
+        
+        it("should report each transformation in verbose mode", async () => {
+            const stub = await startStubModel([`\`\`\`markdown\n${expectedReadme}\`\`\`\n`])
+            const { dir, status, output } = await stubRun(stub, e2eProject(), ['--verbose'])
+            
+            expect(status).toBe(0)
+            expect(output).toContain('🧽 Cleaned up step 1 output:')
+            expect(readFileSync(join(dir, 'README.md'), 'utf-8')).toBe(expectedReadme)
+        }, 60000)
+    })
+
+    describe("Pipeline Steps", () => {
+        const pipeline = resolvePipeline([
+            { name: 'prep', prompt: '1_prep_readme.txt' },
+            { name: 'external-sources', prompt: '2_external_sources.txt' },
+            { prompt: '3_gitingest_readme.txt', context: 'gitingest-code.txt' },
+            { name: 'arch', prompt: 'architecture.txt', context: ['gitingest-code.txt', 'gitingest-tf.txt'], chain: false, output: 'docs/ARCHITECTURE.md' }
+        ], 'README.md')
+        
+        it("should fill in step defaults in pipeline order", () => {
+            expect(pipeline.map(step => step.name)).toEqual(['prep', 'external-sources', '3_gitingest_readme', 'arch'])
+            expect(pipeline[2]).toEqual({
+                step: 3, name: '3_gitingest_readme', prompt: '3_gitingest_readme.txt',
+                contexts: ['gitingest-code.txt'], chain: true, output: 'README.md', mcp: []
+            })
+            expect(pipeline[3]).toMatchObject({ step: 4, contexts: ['gitingest-code.txt', 'gitingest-tf.txt'], chain: false, output: 'docs/ARCHITECTURE.md' })
+        })
+        
+        it("should run only the named steps with --only", () => {
+            expect(selectSteps(pipeline, 'arch', undefined).map(step => step.step)).toEqual([4])
+            expect(selectSteps(pipeline, ['arch', 'prep'], undefined).map(step => step.step)).toEqual([1, 4])
+            expect(selectSteps(pipeline, 'prep,external-sources', undefined).map(step => step.step)).toEqual([1, 2])
+        })
+        
+        it("should run the named step and everything after it with --from", () => {
+            expect(selectSteps(pipeline, undefined, 'external-sources').map(step => step.name)).toEqual(['external-sources', '3_gitingest_readme', 'arch'])
+            expect(selectSteps(pipeline, undefined, undefined)).toBe(pipeline)
+        })
+        
+        it("should reject unknown step names", () => {
+            expect(() => selectSteps(pipeline, 'codebase', undefined)).toThrow('Unknown step "codebase" (steps: prep, external-sources, 3_gitingest_readme, arch)')
+            expect(() => selectSteps(pipeline, 'prep', 'arch')).toThrow('--only and --from cannot be combined')
+        })
+        
+        it("should validate step fields in the config file", () => {
+            const errors = validateConfig({
+                steps: [
+                    { prompt: '1_prep_readme.txt', chain: 'yes', output: '' },
+                    { prompt: 'other/1_prep_readme.txt', context: ['gitingest-code.txt', 'missing.txt'] }
+                ]
+            })
+            expect(errors).toEqual([
+                'steps[0].chain must be a boolean',
+                'steps[0].output must be a non-empty string',
+                'steps[1] name "1_prep_readme" is used by another step - give one of them a "name"',
+                expect.stringContaining('steps[1].context "missing.txt" does not match any context output')
+            ])
+        })
+        
+        it("should start an unchained step without previous_response_id", async () => {
+            const stub = await startStubModel([expectedReadme])
+            const steps = [{ prompt: '1_prep_readme.txt' }, { prompt: '3_gitingest_readme.txt', chain: false }]
+            const { status } = await stubRun(stub, e2eProject(dir => writeFileSync(join(dir, 'rereadme.config.json'), JSON.stringify({ steps }))))
+            
+            expect(status).toBe(0)
+            expect(stub.requests[1].messages.map(message => message.role)).toEqual(['system', 'user'])
+        }, 60000)
+    })
+
+    describe("MCP Tools", () => {
+        let mcpServer: http.Server
+        let mcpUrl: string
+        const toolCalls: unknown[] = []
+        
+        beforeAll(async () => {
+            ({ server: mcpServer, url: mcpUrl } = await startStubConfluence(toolCalls))
+        })
+        
+        afterAll(async () => {
+            await new Promise(resolve => mcpServer.close(resolve))
+        })
+        
+        it("should expose the server's tools under the server name", async () => {
+            const toolbox = await connectMcpServers({ confluence: { url: mcpUrl } })
+            try {
+                expect(toolbox.tools).toEqual([expect.objectContaining({ name: 'confluence__search_pages', description: 'Search Confluence pages' })])
+                expect(await toolbox.call('confluence__missing', {})).toBe('Error: unknown tool confluence__missing')
+            } finally {
+                await toolbox.close()
+            }
+        })
+        
+        it("should run the tool-call loop until the model answers", async () => {
+            const toolbox = await connectMcpServers({ confluence: { url: mcpUrl } })
+            const requests: Array<Parameters<typeof runToolLoop>[1]> = []
+            const send: Parameters<typeof runToolLoop>[0] = async request => {
+                requests.push(request)
+                return requests.length === 1
+                    ? { content: '', responseId: 'resp_1', toolCalls: [{ id: 'call_1', name: 'confluence__search_pages', arguments: { query: 'rereadme' } }] }
+                    : { content: '# App\n\nSee the [TRD](https://wiki.example.com/trd).', responseId: 'resp_2' }
+            }
+            
+            try {
+                const { result, messages } = await runToolLoop(send, { instructions: 'Search', input: 'Find docs', previousId: '', messages: [{ role: 'user', content: 'Find docs' }] }, toolbox)
+                
+                expect(result.content).toContain('https://wiki.example.com/trd')
+                expect(toolCalls).toContainEqual({ query: 'rereadme' })
+                expect(requests[1]).toMatchObject({ previousId: 'resp_1', toolResults: [{ id: 'call_1', output: 'TRD: https://wiki.example.com/trd' }] })
+                expect(messages.map(message => message.role)).toEqual(['user', 'assistant', 'tool'])
+            } finally {
+                await toolbox.close()
+            }
+        })
+        
+        it("should stop a model that never stops calling tools", async () => {
+            const toolbox = { tools: [], call: async () => 'nothing', close: async () => {} }
+            const send: Parameters<typeof runToolLoop>[0] = async () => ({ content: '', responseId: 'resp', toolCalls: [{ id: 'call', name: 'search', arguments: {} }] })
+            await expect(runToolLoop(send, { instructions: '', input: '', previousId: '', messages: [] }, toolbox, 2))
+                .rejects.toThrow('Model was still calling tools after 2 rounds')
+        })
+        
+        it("should flatten tool results and mark errors", () => {
+            expect(formatToolResult({ content: [{ type: 'text', text: 'a' }, { type: 'image', data: '' }] })).toBe('a\n[image content omitted]')
+            expect(formatToolResult({ content: [{ type: 'text', text: 'not found' }], isError: true })).toBe('Error: not found')
+        })
+        
+        it("should read ${VAR} placeholders from the environment", () => {
+            expect(expandEnvVars('Bearer ${TOKEN}', { TOKEN: 'secret' })).toBe('Bearer secret')
+            expect(() => expandEnvVars('${MISSING}', {})).toThrow('Environment variable MISSING is not set')
+        })
+        
+        it("should validate MCP servers and the steps that use them", () => {
+            expect(validateConfig({
+                mcpServers: { confluence: { command: 'npx', url: 'http://localhost' }, 'bad name': { url: 'http://localhost' } },
+                steps: [{ prompt: '2_external_sources.txt', mcp: ['jira'] }]
+            })).toEqual([
+                'steps[0].mcp "jira" is not defined in mcpServers',
+                'mcpServers.confluence needs either "command" (stdio) or "url" (HTTP), not both',
+                'mcpServers.bad name name may only contain letters, digits, _ and -'
+            ])
+        })
+    })
+
+    describe("Local Documentation Sources", () => {
+        it("should keep each --sources glob whole", () => {
+            expect(parseSourcePatterns(undefined)).toEqual([])
+            expect(parseSourcePatterns('docs/{adr,prd}/**/*.md')).toEqual(['docs/{adr,prd}/**/*.md'])
+            expect(parseSourcePatterns(['docs/**/*.md', ' openapi.yaml '])).toEqual(['docs/**/*.md', 'openapi.yaml'])
+            expect(() => parseSourcePatterns(true)).toThrow('--sources needs a glob')
+        })
+        
+        it("should report a bare --sources without a stack trace", () => {
+            const { status, output } = replay(['--sources'])
+            
+            expect(status).toBe(1)
+            expect(output).toContain('💥 Fatal error: --sources needs a glob')
+            expect(output).not.toMatch(/^\s+at /m)
+        }, 60000)
+        
+        it("should split front matter from the document body", () => {
+            const { attributes, body } = parseFrontMatter('---\ntitle: "Use Postgres"\nstatus: accepted\ntags:\n  - db\n---\n\nWe use Postgres.\n')
+            
+            expect(attributes).toEqual({ title: 'Use Postgres', status: 'accepted' })
+            expect(body).toBe('\nWe use Postgres.\n')
+            expect(parseFrontMatter('# No front matter\n---\n').attributes).toEqual({})
+        })
+        
+        it("should title documents by front matter, heading, OpenAPI info, then file name", () => {
+            expect(documentTitle('docs/adr/001.md', '---\ntitle: Use Postgres\n---\n# 1. Database')).toBe('Use Postgres')
+            expect(documentTitle('docs/prd.md', 'Intro\n\n## Product Requirements ##\n')).toBe('Product Requirements')
+            expect(documentTitle('openapi.yaml', 'openapi: 3.0.0\ninfo:\n  version: 1.0.0\n  title: Widget API\npaths: {}\n')).toBe('Widget API')
+            expect(documentTitle('openapi.json', '{"openapi": "3.0.0", "info": {"title": "Widget API"}}')).toBe('Widget API')
+            expect(documentTitle('docs/notes.txt', 'plain text')).toBe('notes.txt')
+        })
+        
+        it("should truncate documents over the per-file cap", () => {
+            const block = renderSourceDocument('docs/adr/001.md', `---\ntitle: Use Postgres\nstatus: accepted\n---\n${'x'.repeat(30)}`, 10)
+            
+            expect(block).toContain('DOCUMENT: Use Postgres\nFILE: docs/adr/001.md\nSTATUS: accepted\n')
+            expect(block).toContain(`${'x'.repeat(10)}\n[truncated 20 characters]`)
+            expect(block).not.toContain('title:')
+        })
+        
+        it("should attach the sources bundle to the external sources step", async () => {
+            const stub = await startStubModel([expectedReadme])
+            const { status, output } = await stubRun(stub, e2eProject(dir => {
+                mkdirSync(join(dir, 'docs'))
+                writeFileSync(join(dir, 'docs/adr-001.md'), '# Greet in English\n\nGreetings stay in English for now.\n')
+            }), ['--sources', 'docs/**/*.md'])
+            
+            expect(status).toBe(0)
+            expect(output).toContain('Processing step 2: 2_external_sources.txt')
+            expect(lastUserMessage(stub.requests[1])).toContain('Greetings stay in English for now.')
+            expect(lastUserMessage(stub.requests[0])).not.toContain('Greetings stay in English for now.')
+        }, 60000)
+    })
+
+    describe("Change Summary", () => {
+        it("should default to the changes since the last README commit", () => {
+            expect(resolveChangeRange(undefined, 'abc1234')).toBe('abc1234..HEAD')
+            expect(resolveChangeRange(undefined, null)).toBeNull()
+        })
+        
+        it("should take --range as a ref or a ref range", () => {
+            expect(resolveChangeRange('v1.4.0', 'abc1234')).toBe('v1.4.0..HEAD')
+            expect(resolveChangeRange('v1.3.0..v1.4.0', null)).toBe('v1.3.0..v1.4.0')
+            expect(resolveChangeRange(1234567, null)).toBe('1234567..HEAD')
+            expect(() => resolveChangeRange(true, null)).toThrow('--range needs a ref or a ref range')
+        })
+        
+        it("should list commits and changed files", () => {
+            const summary = formatChangeSummary('README.md', 'abc1234..HEAD', 'def5678 Add b module (Dev, 2026-10-18)\n', ' src/b.ts | 1 +\n 1 file changed, 1 insertion(+)\n')
+            
+            expect(summary).toBe([
+                'Changes since README.md was last updated (abc1234..HEAD):',
+                '',
+                'Commits (1):',
+                '- def5678 Add b module (Dev, 2026-10-18)',
+                '',
+                'Files changed:',
+                ' src/b.ts | 1 +',
+                ' 1 file changed, 1 insertion(+)',
+                '',
+                'Update the sections these changes affect. Leave sections they do not touch as they are.'
+            ].join('\n'))
+        })
+        
+        it("should cap the commit list", () => {
+            const log = ['a1 one', 'b2 two', 'c3 three'].join('\n')
+            const summary = formatChangeSummary('README.md', 'v1..HEAD', log, ' a | 1 +', 2)
+            
+            expect(summary).toContain('Commits (3):\n- a1 one\n- b2 two\n- ... and 1 older commit(s)')
+        })
+        
+        it("should say so when nothing changed", () => {
+            expect(formatChangeSummary('README.md', 'abc1234..HEAD', '', '')).toContain('No commits or file changes in this range')
+        })
+        
+        it("should add the summary only to steps that rewrite the output file", async () => {
+            const git = (dir: string, ...args: string[]) => spawnSync('git', ['-c', 'user.name=Test', '-c', 'user.email=test@example.com', ...args], { cwd: dir })
+            const dir = e2eProject(dir => {
+                writeFileSync(join(dir, 'rereadme.config.json'), JSON.stringify({ steps: [{ prompt: '1_prep_readme.txt', output: 'NOTES.md' }, { prompt: '3_gitingest_readme.txt' }] }))
+                git(dir, 'init', '-q')
+                git(dir, 'add', '.')
+                git(dir, 'commit', '-q', '-m', 'Initial commit')
+                appendFileSync(join(dir, 'src/index.js'), 'console.log(\'Bye!\')\n')
+                git(dir, 'commit', '-q', '-am', 'Say goodbye too')
+            })
+            const stub = await startStubModel([expectedReadme])
+            const { status } = await stubRun(stub, dir)
+            
+            expect(status).toBe(0)
+            expect(lastUserMessage(stub.requests[0])).not.toContain('Changes since')
+            expect(lastUserMessage(stub.requests[1])).toContain('Changes since README.md was last updated')
+            expect(lastUserMessage(stub.requests[1])).toContain('Say goodbye too')
+        }, 60000)
+    })
+
+    describe("Incremental Mode", () => {
+        const separator = '='.repeat(48)
+        
+        it("should leave the output file out of a digest", () => {
+            const digest = `Directory structure:\n└── proj/\n\n${separator}\nFILE: README.md\n${separator}\n# Proj\n\n${separator}\nFILE: src/a.ts\n${separator}\nexport const a = 1\n`
+            
+            expect(stripDigestFile(digest, 'README.md')).toBe(`Directory structure:\n└── proj/\n\n${separator}\nFILE: src/a.ts\n${separator}\nexport const a = 1\n`)
+            expect(stripDigestFile(digest, 'README')).toBe(digest)
+        })
+        
+        it("should combine hashes independently of input order", () => {
+            expect(combineHashes({ model: 'a', template: 'b' })).toBe(combineHashes({ template: 'b', model: 'a' }))
+            expect(combineHashes({ model: 'a', template: 'b' })).not.toBe(combineHashes({ model: 'a', template: 'c' }))
+        })
+        
+        it("should list changed, added and removed inputs", () => {
+            expect(changedInputs(
+                { model: 'a', 'context:gitingest-code.txt': 'b', 'prompt:2_external_sources.txt': 'c' },
+                { model: 'a', 'context:gitingest-code.txt': 'x', 'context:gitingest-sources.txt': 'd' }
+            )).toEqual(['context:gitingest-code.txt', 'context:gitingest-sources.txt', 'prompt:2_external_sources.txt'])
+        })
+        
+        it("should skip the model calls when the fingerprint is unchanged", () => {
+            const { dir, status } = replay()
+            expect(status).toBe(0)
+            
+            const second = runCli(dir)
+            expect(second.status).toBe(0)
+            expect(second.output).toContain('README.md up to date')
+            expect(second.output).not.toContain('Processing step 1')
+            
+            // The refreshed README makes a new prompt, which was never recorded - what matters is that it gets sent
+            const forced = runCli(dir, ['--force'])
+            expect(forced.output).not.toContain('up to date - nothing changed')
+            expect(forced.output).toContain('Processing step 1: 1_prep_readme.txt')
+        }, 120000)
+        
+        it("should run again when an option that shapes the prompts changes", () => {
+            const { dir, status } = replay()
+            expect(status).toBe(0)
+            
+            // The README steps replay from the cache; the scoped README.llm was never recorded
+            const { output } = runCli(dir, ['--subdir', 'src', '--verbose'])
+            expect(output).not.toContain('up to date - nothing changed')
+            expect(output).toContain('Changed since the last run: subdirs')
+            expect(output).toContain('Processing step 1: 1_prep_readme.txt')
+        }, 120000)
+        
+        it("should never skip a dry run or a --ci check", () => {
+            const { dir, status } = replay()
+            expect(status).toBe(0)
+            
+            const { output } = runCli(dir, ['--dry-run'])
+            expect(output).not.toContain('up to date - nothing changed')
+            expect(output).toContain('Processing step 1: 1_prep_readme.txt')
+        }, 120000)
+    })
+
+    describe("Response Cache", () => {
+        it("should pick the cache mode from the flags", () => {
+            expect(resolveCacheMode(undefined, undefined)).toBe('off')
+            expect(resolveCacheMode(false, undefined)).toBe('off')
+            expect(resolveCacheMode(true, undefined)).toBe('on')
+            expect(resolveCacheMode(undefined, true)).toBe('only')
+            expect(() => resolveCacheMode(false, true)).toThrow('--cache-only cannot be combined with --no-cache')
+        })
+        
+        it("should key responses by everything that shapes them", () => {
+            const parts = { provider: 'openai', model: 'gpt-5-nano', instructions: 'Refresh', input: '# App', previous: '', tools: [], toolResults: [] }
+            const key = responseCacheKey(parts)
+            
+            expect(key).toMatch(/^[0-9a-f]{64}$/)
+            expect(responseCacheKey({ ...parts })).toBe(key)
+            expect(responseCacheKey({ ...parts, model: 'gpt-4.1-nano' })).not.toBe(key)
+            expect(responseCacheKey({ ...parts, previous: '# Previous README' })).not.toBe(key)
+            expect(responseCacheKey({ ...parts, toolResults: [{ id: 'call_1', output: 'TRD' }] })).not.toBe(key)
+        })
+        
+        it("should key tool-loop follow-ups on the request they answer", () => {
+            const first = { provider: 'openai', model: 'gpt-5-nano', instructions: 'Refresh', previous: '', tools: ['confluence__search_pages'], toolResults: [] }
+            // Same tool calls and results after two different starting READMEs
+            const followUp = { ...first, input: '', toolResults: [{ id: 'call_1', output: 'TRD' }] }
+            const keys = ['# App', '# Changed App'].map(input => responseCacheKey({ ...followUp, parent: responseCacheKey({ ...first, input }) }))
+            
+            expect(keys[0]).not.toBe(keys[1])
+        })
+        
+        it("should expire entries after the TTL", () => {
+            const entry = { key: 'k', createdAt: '2026-01-01T00:00:00.000Z', provider: 'openai', model: 'gpt-5-nano', step: '1. prep', response: { content: '# App', responseId: 'resp_1' } }
+            const created = Date.parse(entry.createdAt)
+            
+            expect(isCacheEntryFresh(entry, 60 * 60 * 1000, created + 59 * 60 * 1000)).toBe(true)
+            expect(isCacheEntryFresh(entry, 60 * 60 * 1000, created + 61 * 60 * 1000)).toBe(false)
+            expect(isCacheEntryFresh(entry, 0, created + 365 * 24 * 60 * 60 * 1000)).toBe(true)
+        })
+        
+        it("should report conflicting or invalid cache flags without a stack trace", () => {
+            for (const [args, message] of [
+                [['--no-cache'], '💥 Fatal error: --cache-only cannot be combined with --no-cache'],
+                [['--cache-ttl', 'week'], '💥 Fatal error: --cache-ttl must be a number of hours']
+            ] as const) {
+                const { status, output } = replay([...args])
+                expect(status).toBe(1)
+                expect(output).toContain(message)
+                expect(output).not.toMatch(/^\s+at /m)
+            }
+        }, 60000)
+    })
+
+    describe("Monorepo Workspaces", () => {
+        it("should read workspaces from package.json, pnpm and lerna", () => {
+            expect(workspacePatterns({ workspaces: ['packages/*', '!packages/legacy'] }, null, undefined)).toEqual(['packages/*', '!packages/legacy'])
+            expect(workspacePatterns({ workspaces: { packages: ['apps/*'] } }, null, undefined)).toEqual(['apps/*'])
+            expect(workspacePatterns({}, 'packages:\n  - "packages/*"\n  - \'!**/test/**\'\n', undefined)).toEqual(['packages/*', '!**/test/**'])
+            expect(workspacePatterns({}, null, { version: '7.0.0' })).toEqual(['packages/*'])
+            expect(workspacePatterns({}, null, { packages: ['modules/*'] })).toEqual(['modules/*'])
+            expect(workspacePatterns(undefined, null, undefined)).toEqual([])
+        })
+        
+        it("should stop reading pnpm packages at the next key", () => {
+            expect(parsePnpmWorkspace('packages:\n  - apps/* # apps\ncatalog:\n  - react\n')).toEqual(['apps/*'])
+        })
+        
+        it("should read pnpm packages written in flow style", () => {
+            expect(parsePnpmWorkspace("packages: ['packages/*', \"!**/test/**\"]\n")).toEqual(['packages/*', '!**/test/**'])
+            expect(parsePnpmWorkspace('catalog:\n  react: ^18\n')).toEqual([])
+            expect(() => parsePnpmWorkspace('packages: [apps/*\n')).toThrow('Could not parse pnpm-workspace.yaml')
+        })
+        
+        it("should pass every other flag on to the packages", () => {
+            expect(workspaceChildArgs(['--workspaces', '--concurrency', '4', '--provider', 'fake', '--concurrency=2', '--dry-run']))
+                .toEqual(['--provider', 'fake', '--dry-run'])
+            expect(workspaceChildArgs(['--config', '/repo/rereadme.config.json'])).toEqual(['--config', '/repo/rereadme.config.json'])
+        })
+        
+        it("should run at most the concurrency limit at once and keep the input order", async () => {
+            let running = 0
+            let peak = 0
+            const results = await runWithConcurrency([30, 10, 20, 5], 2, async delay => {
+                running++
+                peak = Math.max(peak, running)
+                await new Promise(resolve => setTimeout(resolve, delay))
+                running--
+                return delay * 2
+            })
+            
+            expect(results).toEqual([60, 20, 40, 10])
+            expect(peak).toBe(2)
+        })
+        
+        it("should summarise each package and the totals", () => {
+            const lines = formatWorkspaceSummary([
+                { dir: 'packages/api', status: 'updated', seconds: 12.34 },
+                { dir: 'packages/ui', status: 'unchanged', seconds: 2 },
+                { dir: 'packages/cli', status: 'failed', seconds: 3.5, message: 'Workflow failed: boom' }
+            ])
+            
+            expect(lines[0]).toMatch(/^packages\/api\s+✅ updated\s+12\.3s$/)
+            expect(lines[2]).toContain('❌ failed')
+            expect(lines[2]).toContain('Workflow failed: boom')
+            expect(lines[3]).toBe('3 package(s): 1 updated, 1 unchanged, 1 failed')
+        })
+        
+        // Two copies of the e2e project as packages/a and packages/b
+        const monorepo = (dir: string) => {
+            for (const name of ['a', 'b']) {
+                cpSync(join(repoRoot, 'fixtures/e2e/project'), join(dir, 'packages', name), { recursive: true })
+            }
+            writeFileSync(join(dir, 'package.json'), JSON.stringify({ name: 'monorepo', private: true, workspaces: ['packages/*'] }))
+        }
+        
+        it("should refresh each package inside its own directory", () => {
+            const { dir, status, output } = fakeRun(['--workspaces', '--no-template-check'], monorepo)
+            
+            expect(status).toBe(0)
+            expect(output).toContain('2 package(s): 2 updated')
+            expect(existsSync(join(dir, 'packages/a/.rereadme/fingerprints.json'))).toBe(true)
+            expect(existsSync(join(dir, 'packages/b/.rereadme/fingerprints.json'))).toBe(true)
+            expect(existsSync(join(dir, '.rereadme/fingerprints.json'))).toBe(false)
+        }, 120000)
+        
+        it("should take each package's outcome from the result its run reports", () => {
+            const dir = e2eProject(dir => {
+                monorepo(dir)
+                writeFileSync(join(dir, 'packages/b/rereadme.config.json'), JSON.stringify({ steps: [{ prompt: 'missing.txt' }] }))
+            })
+            const args = ['--workspaces', '--no-template-check']
+            
+            const first = runCli(dir, args, ['--provider', 'fake'])
+            expect(first.status).toBe(1)
+            expect(first.output).toMatch(/packages\/b\s+❌ failed .*missing\.txt/)
+            expect(first.output).toContain('2 package(s): 1 updated, 1 failed')
+            
+            const second = runCli(dir, args, ['--provider', 'fake'])
+            expect(second.output).toContain('2 package(s): 1 unchanged, 1 failed')
+        }, 120000)
+    })
+
+    describe("Streaming and Cancellation", () => {
+        const request = { instructions: 'Refresh the README', input: '# Old', previousId: '', messages: [] }
+        let server: http.Server
+        let baseUrl: string
+        
+        // Sends the first two deltas, then holds the stream open until the client gives up
+        beforeAll(async () => {
+            server = http.createServer((req, res) => {
+                req.resume()
+                req.on('end', () => {
+                    res.writeHead(200, { 'content-type': 'text/event-stream' })
+                    for (const delta of ['# New', ' README']) {
+                        res.write(`event: response.output_text.delta\ndata: ${JSON.stringify({ type: 'response.output_text.delta', delta })}\n\n`)
+                    }
+                })
+            })
+            await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve))
+            baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`
+        })
+        
+        afterAll(async () => {
+            server.closeAllConnections()
+            await new Promise(resolve => server.close(resolve))
+        })
+        
+        it("should join the message text of a streamed response", () => {
+            expect(responseOutputText({ output_text: '# Ready', output: [] })).toBe('# Ready')
+            expect(responseOutputText({
+                output: [
+                    { type: 'function_call', call_id: 'call_1', name: 'search', arguments: '{}' },
+                    { type: 'message', id: 'msg_1', role: 'assistant', status: 'completed', content: [
+                        { type: 'output_text', text: '# New', annotations: [] },
+                        { type: 'output_text', text: ' README', annotations: [] }
+                    ] }
+                ]
+            } as Parameters<typeof responseOutputText>[0])).toBe('# New README')
+        })
+        
+        it("should show approximate tokens received and the rate", () => {
+            expect(formatStreamProgress(1200, 4000)).toBe('⏳ Receiving response: ~1200 tokens in 4.0s (300 tokens/s)')
+            expect(formatStreamProgress(0, 0)).toBe('⏳ Receiving response: ~0 tokens in 0.0s (0 tokens/s)')
+        })
+        
+        it("should not retry once the call has been cancelled", async () => {
+            const controller = new AbortController()
+            const operation = jest.fn(async () => {
+                controller.abort()
+                throw Object.assign(new Error('Request was aborted.'), { name: 'AbortError' })
+            })
+            
+            await expect(withRetry(operation, { maxRetries: 3, baseDelayMs: 1000, maxDelayMs: 30000, signal: controller.signal })).rejects.toThrow('aborted')
+            expect(operation).toHaveBeenCalledTimes(1)
+        })
+        
+        it("should pass text deltas on and stop reading when aborted", async () => {
+            const client = new OpenAI({ apiKey: 'test', baseURL: baseUrl, maxRetries: 0 })
+            const controller = new AbortController()
+            const received: string[] = []
+            
+            const call = createResponsesApiResponse(client, request, {
+                signal: controller.signal,
+                onText: delta => {
+                    received.push(delta)
+                    if (received.length === 2) {
+                        controller.abort()
+                    }
+                }
+            })
+            
+            await expect(call).rejects.toThrow()
+            expect(received).toEqual(['# New', ' README'])
+        })
+        
+        it("should discard the partial response and leave the README alone on Ctrl+C", async () => {
+            const stub = await startStubModel(['hang'])
+            const { dir, status, output } = await stubRun(stub, e2eProject(), [], child => {
+                stub.onRequest = () => child.kill('SIGINT')
+            })
+            
+            expect(status).toBe(130)
+            expect(output).toContain('Interrupted during 1. 1_prep_readme.txt - its partial response was discarded')
+            expect(output).toContain('resume with: rereadme --resume')
+            expect(readFileSync(join(dir, 'README.md'), 'utf-8')).toBe(readFileSync(join(repoRoot, 'fixtures/e2e/project/README.md'), 'utf-8'))
+        }, 60000)
+        
+        it("should exit non-zero through the bin wrapper on Ctrl+C outside a model request", async () => {
+            const dir = e2eProject()
+            // Ctrl+C goes to the whole process group: the wrapper, tsx, the script and the help command it waits on
+            const child = spawn(process.execPath, [join(repoRoot, 'bin/rereadme.js'), '--provider', 'fake', '--no-template-check', '--verify-help', 'sleep 30'], { cwd: dir, detached: true })
+            const timer = setTimeout(() => process.kill(-child.pid!, 'SIGKILL'), 60000)
+            let interrupted = false
+            child.stdout?.on('data', chunk => {
+                if (!interrupted && String(chunk).includes('Processing step 1')) {
+                    interrupted = true
+                    setTimeout(() => process.kill(-child.pid!, 'SIGINT'), 1000)
+                }
+            })
+            const status = await new Promise<number | null>(resolve => child.on('exit', resolve))
+            clearTimeout(timer)
+            
+            expect(interrupted).toBe(true)
+            expect(status).toBe(130)
+        }, 90000)
+    })
+
+    describe("Interactive Review", () => {
+        const current = '# Proj\n\nIntro.\n\n## Install\n\nnpm install proj\n\n## Old\n\nGone soon.\n\n## Usage\n\nRun it.\n'
+        const proposed = '# Proj\n\nIntro.\n\n## Install\n\npnpm add proj\n\n## Usage\n\nRun it.\n\n## License\n\nMIT\n'
+        
+        it("should pair sections by heading and keep removed ones in place", () => {
+            const changes = pairSections(current, proposed)
+            
+            expect(changes.map(change => change.heading)).toEqual(['Proj', 'Install', 'Old', 'Usage', 'License'])
+            expect(changes.map(isSectionChanged)).toEqual([false, true, true, false, true])
+            expect(changes[2].after).toBeNull()
+            expect(changes[4].before).toBeNull()
+        })
+        
+        it("should pair repeated headings by occurrence", () => {
+            const changes = pairSections('## Example\n\nOne\n\n## Example\n\nTwo\n', '## Example\n\nOne\n\n## Example\n\nThree\n')
+            expect(changes.map(isSectionChanged)).toEqual([false, true])
+        })
+        
+        it("should write only the accepted sections", () => {
+            const changes = pairSections(current, proposed)
+            // Reject the Install change and the new License section, accept removing Old
+            const kept = changes.map(change => ['Install', 'License'].includes(change.heading) ? change.before : change.after)
+            
+            expect(mergeSections(kept)).toBe('# Proj\n\nIntro.\n\n## Install\n\nnpm install proj\n\n## Usage\n\nRun it.\n')
+            expect(mergeSections(changes.map(change => change.before))).toBe(current)
+        })
+        
+        it("should understand the review choices", () => {
+            expect(parseReviewChoice(' A ')).toBe('accept')
+            expect(parseReviewChoice('n')).toBe('reject')
+            expect(parseReviewChoice('e')).toBe('edit')
+            expect(parseReviewChoice('f')).toBe('feedback')
+            expect(parseReviewChoice('q')).toBe('quit')
+            expect(parseReviewChoice('maybe')).toBeNull()
+        })
+        
+        it("should continue the next step from the text that was kept", async () => {
+            const stub = await startStubModel([`${expectedReadme}\n## FAQ\n\nRejected answer.\n`])
+            const { dir, status } = await stubRun(stub, e2eProject(dir => writeFileSync(join(dir, 'README.md'), expectedReadme)), ['--interactive'], child => {
+                // Reject every proposed change, then close stdin so the CLI can exit
+                child.stdout?.on('data', chunk => {
+                    if (String(chunk).includes('[a/r/e/f/q]')) {
+                        child.stdin?.write('r\n')
+                    } else if (String(chunk).includes('Formatting README.md')) {
+                        child.stdin?.end()
+                    }
+                })
+            })
+            
+            expect(status).toBe(0)
+            expect(readFileSync(join(dir, 'README.md'), 'utf-8')).toBe(expectedReadme)
+            expect(lastUserMessage(stub.requests[0])).not.toContain('which is what was kept')
+            expect(lastUserMessage(stub.requests[1])).toContain(`Continue from this README.md, which is what was kept:\n\n${expectedReadme}`)
+        }, 60000)
+    })
+
+    describe("Markdown Linting", () => {
+        const readme = '# Title\nText   \n## Usage\n\n```\nnpm start\n```\n'
+        
+        it("should auto-fix what it can and report the rest", async () => {
+            const result = await lintMarkdown(readme, {})
+            
+            expect(result.content).toBe('# Title\n\nText\n\n## Usage\n\n```\nnpm start\n```\n')
+            expect(result.errors.map(error => error.ruleNames[0])).toEqual(['MD040'])
+            expect(formatLintError(result.errors[0], 'README.md')).toBe(
+                'README.md:7 MD040/fenced-code-language Fenced code blocks should have a language specified [Context: "```"]'
+            )
+            expect(formatLintError(result.errors[0])).toMatch(/^line 7: MD040/)
+        })
+        
+        it("should honour the rules turned off in the config", async () => {
+            const result = await lintMarkdown(readme, { MD040: false })
+            expect(result.errors).toEqual([])
+        })
+        
+        it("should read .markdownlint.jsonc with comments and trailing commas", () => {
+            const jsonc = '{\n  // Long lines are fine\n  "MD013": false, /* tables */\n  "MD033": { "allowed_elements": ["br",], },\n  "url": "https://example.com//x",\n}'
+            expect(JSON.parse(stripJsonComments(jsonc))).toEqual({ MD013: false, MD033: { allowed_elements: ['br'] }, url: 'https://example.com//x' })
+        })
+        
+        it("should read .markdownlintrc from parent directories but .markdownlint.json only from the working directory", async () => {
+            const unlabelled = expectedReadme.replace('```bash\nnpm start', '```\nnpm start')
+            const stub = await startStubModel([unlabelled])
+            const { output } = await stubRun(stub, e2eProject(dir => {
+                writeFileSync(join(path.dirname(dir), '.markdownlintrc'), '{ "MD040": false }')
+                writeFileSync(join(path.dirname(dir), '.markdownlint.json'), '{ "MD040": ')
+            }))
+            
+            expect(stub.requests).toHaveLength(2) // No repair request for the unlabelled code block
+            expect(output).not.toContain('Ignoring unreadable markdownlint config')
+            expect(output).toContain('README.md formatted successfully')
+        }, 60000)
+        
+        it("should not ask for repairs that would bypass the --interactive review", async () => {
+            const unlabelled = expectedReadme.replace('```bash\nnpm start', '```\nnpm start')
+            // The model proposes no changes, so there is nothing to review and no question is asked
+            const stub = await startStubModel([unlabelled])
+            const { dir, status, output } = await stubRun(stub, e2eProject(dir => writeFileSync(join(dir, 'README.md'), unlabelled)), ['--interactive'])
+            
+            expect(status).toBe(0)
+            expect(stub.requests).toHaveLength(2)
+            expect(output).toContain('README.md:22 MD040/fenced-code-language')
+            expect(output).toContain('not asked to repair them in --interactive mode')
+            expect(readFileSync(join(dir, 'README.md'), 'utf-8')).toBe(unlabelled)
+        }, 60000)
+        
+        it("should send the remaining issues back to the model", async () => {
+            const unlabelled = expectedReadme.replace('```bash\nnpm start', '```\nnpm start')
+            const stub = await startStubModel([unlabelled, unlabelled, expectedReadme])
+            const { dir, status } = await stubRun(stub, e2eProject())
+            
+            expect(status).toBe(0)
+            expect(stub.requests).toHaveLength(3)
+            expect(lastUserMessage(stub.requests[2])).toContain('MD040')
+            expect(stub.requests[2].messages).toContainEqual({ role: 'assistant', content: unlabelled })
+            expect(readFileSync(join(dir, 'README.md'), 'utf-8')).toBe(expectedReadme)
+        }, 60000)
+    })
+})